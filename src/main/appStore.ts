@@ -0,0 +1,13 @@
+import Store from 'electron-store';
+import { AppSettings } from '../shared/types';
+import { LoopbackRecords } from './loopbackManager';
+
+// Everything the app keeps in electron-store; clips live in their own library file
+export interface StoreSchema {
+  clipsDirectory?: string;
+  settings?: Partial<AppSettings>;
+  loopbackModules?: LoopbackRecords; // Modules to find again after a crash
+  clips?: unknown[]; // Pre-library clip list, moved into the clip library on first start
+}
+
+export type AppStore = Store<StoreSchema>;
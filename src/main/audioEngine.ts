@@ -0,0 +1,426 @@
+import { EventEmitter } from 'events';
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import { readWavSamples } from './wavFile';
+import { resolveSinkName } from './pulseAudio';
+
+// Every clip is converted to this format once, so mixing is plain addition
+const ENGINE_SAMPLE_RATE = 48000;
+const ENGINE_CHANNELS = 2;
+const MIX_INTERVAL_MS = 10;
+const OUTPUT_LEAD_MS = 60; // Audio kept queued ahead of the clock to absorb timer jitter
+const DECODE_CACHE_LIMIT_BYTES = 256 * 1024 * 1024;
+
+interface DecodedClip {
+  filePath: string;
+  mtimeMs: number;
+  channels: Float32Array[]; // Always ENGINE_CHANNELS channels at ENGINE_SAMPLE_RATE
+  frameCount: number;
+  byteSize: number;
+}
+
+interface EngineVoice {
+  voiceId: string;
+  clip: DecodedClip;
+  startFrame: number; // First frame of the clip's trimmed range
+  endFrame: number; // Frame after the last one to play
+  fadeInFrames: number;
+  fadeOutFrames: number; // Ramp down to endFrame; a fading stop moves both
+  stopping: boolean;
+  position: number; // Next frame to mix
+  paused: boolean;
+  gain: number;
+  outputs: OutputTarget[];
+}
+
+// A long-lived player process that receives raw interleaved s16le PCM on stdin
+interface OutputStream {
+  deviceId: string;
+  process: ChildProcess;
+  failed: boolean;
+}
+
+export interface VoiceStatus {
+  position: number; // Seconds the listener has heard so far
+  duration: number; // Seconds
+  paused: boolean;
+}
+
+export interface OutputTarget {
+  deviceId: string; // Device id as used in AppSettings ('default', 'pulse-3', 'alsa-1', ...)
+  gain: number; // Applied on top of the voice gain for this output only
+}
+
+export interface PlayOptions {
+  voiceId: string;
+  filePath: string;
+  gain: number;
+  outputs: OutputTarget[];
+  trimStart?: number; // Seconds into the file where playback starts
+  trimEnd?: number; // Seconds into the file where playback stops, end of file if unset
+  fadeIn?: number; // Seconds
+  fadeOut?: number; // Seconds, ending at the end of the trimmed range
+}
+
+/**
+ * In-process playback: decodes WAV files, mixes every active voice and writes
+ * the result to one persistent output stream per device.
+ *
+ * Events:
+ *  - 'voice-ended' (voiceId) when a voice played to its last frame
+ *  - 'voice-error' (voiceId, error) when none of a voice's outputs could be opened
+ */
+export class AudioEngine extends EventEmitter {
+  private voices = new Map<string, EngineVoice>();
+  private outputs = new Map<string, OutputStream>();
+  private decodeCache = new Map<string, DecodedClip>();
+  private mixTimer: NodeJS.Timeout | null = null;
+  private clockStart = 0;
+  private framesMixed = 0;
+
+  public play(options: PlayOptions): void {
+    const clip = this.loadClip(options.filePath);
+
+    const outputs = options.outputs.filter(output => this.ensureOutput(output.deviceId));
+    if (outputs.length === 0) {
+      throw new Error(`No output stream could be opened for ${options.outputs.map(output => output.deviceId).join(', ')}`);
+    }
+
+    const endFrame = options.trimEnd !== undefined
+      ? Math.min(clip.frameCount, Math.round(options.trimEnd * ENGINE_SAMPLE_RATE))
+      : clip.frameCount;
+    const startFrame = Math.max(0, Math.min(endFrame - 1, Math.round((options.trimStart || 0) * ENGINE_SAMPLE_RATE)));
+    const length = endFrame - startFrame;
+
+    this.voices.set(options.voiceId, {
+      voiceId: options.voiceId,
+      clip,
+      startFrame,
+      endFrame,
+      fadeInFrames: Math.min(length, Math.round((options.fadeIn || 0) * ENGINE_SAMPLE_RATE)),
+      fadeOutFrames: Math.min(length, Math.round((options.fadeOut || 0) * ENGINE_SAMPLE_RATE)),
+      stopping: false,
+      position: startFrame,
+      paused: false,
+      gain: options.gain,
+      outputs
+    });
+
+    this.startMixing();
+  }
+
+  /**
+   * Stop a voice, ramping it down over fadeSeconds rather than cutting it off. A fading
+   * voice keeps playing until the ramp is done and then ends with 'voice-ended'.
+   */
+  public stop(voiceId: string, fadeSeconds = 0): void {
+    const voice = this.voices.get(voiceId);
+    if (!voice) return;
+
+    const fadeFrames = Math.round(fadeSeconds * ENGINE_SAMPLE_RATE);
+    if (fadeFrames <= 0 || voice.paused) {
+      this.voices.delete(voiceId);
+      return;
+    }
+    // Already ending sooner, on its own fade-out or an earlier stop
+    if (voice.stopping || voice.position + fadeFrames >= voice.endFrame) return;
+
+    voice.stopping = true;
+    voice.endFrame = voice.position + fadeFrames;
+    voice.fadeOutFrames = fadeFrames;
+  }
+
+  public stopAll(fadeSeconds = 0): void {
+    Array.from(this.voices.keys()).forEach(voiceId => this.stop(voiceId, fadeSeconds));
+  }
+
+  public hasVoice(voiceId: string): boolean {
+    return this.voices.has(voiceId);
+  }
+
+  // Audio already queued in the outputs still plays out after a pause
+  public pause(voiceId: string): void {
+    const voice = this.voices.get(voiceId);
+    if (voice) {
+      voice.paused = true;
+    }
+  }
+
+  public resume(voiceId: string): void {
+    const voice = this.voices.get(voiceId);
+    if (voice && voice.paused) {
+      voice.paused = false;
+      this.startMixing();
+    }
+  }
+
+  public seek(voiceId: string, seconds: number): void {
+    const voice = this.voices.get(voiceId);
+    if (!voice) return;
+
+    // Positions are relative to the trimmed range
+    const frame = voice.startFrame + Math.floor(seconds * ENGINE_SAMPLE_RATE);
+    voice.position = Math.max(voice.startFrame, Math.min(voice.endFrame - 1, frame));
+  }
+
+  // Frames already handed to the outputs but not yet played are not counted as heard
+  public getVoiceStatus(voiceId: string): VoiceStatus | null {
+    const voice = this.voices.get(voiceId);
+    if (!voice) return null;
+
+    const queuedFrames = this.mixTimer && !voice.paused ? Math.max(0, this.framesMixed - this.getElapsedFrames()) : 0;
+    const length = voice.endFrame - voice.startFrame;
+    const heardFrames = Math.min(length, Math.max(0, voice.position - queuedFrames - voice.startFrame));
+    return {
+      position: heardFrames / ENGINE_SAMPLE_RATE,
+      duration: length / ENGINE_SAMPLE_RATE,
+      paused: voice.paused
+    };
+  }
+
+  // Close output streams so the next play() reopens them, e.g. after a device change
+  public resetOutputs(): void {
+    this.outputs.forEach(output => this.closeOutput(output));
+    this.outputs.clear();
+  }
+
+  public dispose(): void {
+    this.stopAll();
+    this.stopMixing();
+    this.resetOutputs();
+    this.decodeCache.clear();
+  }
+
+  private loadClip(filePath: string): DecodedClip {
+    const { mtimeMs } = fs.statSync(filePath);
+    const cached = this.decodeCache.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      // Re-insert to keep the cache in least-recently-used order
+      this.decodeCache.delete(filePath);
+      this.decodeCache.set(filePath, cached);
+      return cached;
+    }
+
+    const decoded = readWavSamples(filePath);
+    const resampled = decoded.channels.map(channel => resample(channel, decoded.format.sampleRate, ENGINE_SAMPLE_RATE));
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < ENGINE_CHANNELS; channel++) {
+      // Mono is duplicated to both sides, extra channels are dropped
+      channels.push(resampled[Math.min(channel, resampled.length - 1)]);
+    }
+
+    const frameCount = channels[0].length;
+    const clip: DecodedClip = {
+      filePath,
+      mtimeMs,
+      channels,
+      frameCount,
+      byteSize: resampled.reduce((total, channel) => total + channel.byteLength, 0)
+    };
+
+    this.decodeCache.set(filePath, clip);
+    this.trimDecodeCache();
+    return clip;
+  }
+
+  private trimDecodeCache(): void {
+    let total = 0;
+    this.decodeCache.forEach(clip => { total += clip.byteSize; });
+
+    for (const [filePath, clip] of this.decodeCache) {
+      if (total <= DECODE_CACHE_LIMIT_BYTES || this.decodeCache.size <= 1) break;
+      const inUse = Array.from(this.voices.values()).some(voice => voice.clip === clip);
+      if (!inUse) {
+        this.decodeCache.delete(filePath);
+        total -= clip.byteSize;
+      }
+    }
+  }
+
+  private ensureOutput(deviceId: string): boolean {
+    const existing = this.outputs.get(deviceId);
+    if (existing && !existing.failed) {
+      return true;
+    }
+
+    const command = this.getOutputCommand(deviceId);
+    if (!command) {
+      console.error('Audio engine: cannot resolve output device', deviceId);
+      return false;
+    }
+
+    console.log('Audio engine: opening output stream:', command.join(' '));
+    const outputProcess = spawn(command[0], command.slice(1), { stdio: ['pipe', 'ignore', 'pipe'] });
+    const output: OutputStream = { deviceId, process: outputProcess, failed: false };
+
+    const fail = (error: Error) => {
+      if (output.failed) return;
+      output.failed = true;
+      if (this.outputs.get(deviceId) === output) {
+        this.outputs.delete(deviceId);
+      }
+      this.handleOutputFailure(deviceId, error);
+    };
+
+    outputProcess.on('error', fail);
+    outputProcess.on('exit', (code, signal) => {
+      fail(new Error(`${command[0]} exited with code ${code}, signal ${signal}`));
+    });
+    outputProcess.stdin?.on('error', fail);
+    outputProcess.stderr?.on('data', (data: Buffer) => {
+      const message = data.toString().trim();
+      if (message && !message.includes('underrun')) {
+        console.log(`Audio engine (${deviceId}):`, message);
+      }
+    });
+
+    this.outputs.set(deviceId, output);
+    return true;
+  }
+
+  private getOutputCommand(deviceId: string): string[] | null {
+    const pcmArgs = ['--raw', '--format=s16le', `--rate=${ENGINE_SAMPLE_RATE}`, `--channels=${ENGINE_CHANNELS}`, `--latency-msec=${OUTPUT_LEAD_MS}`];
+
+    if (!deviceId || deviceId === 'default') {
+      // No --device, so the stream follows the system default sink
+      return ['pacat', '--playback', ...pcmArgs];
+    }
+
+    if (deviceId.startsWith('alsa-')) {
+      // plughw converts our fixed format to whatever the card supports
+      const cardId = deviceId.replace('alsa-', '');
+      return ['aplay', '-q', '-t', 'raw', '-f', 'S16_LE', '-r', `${ENGINE_SAMPLE_RATE}`, '-c', `${ENGINE_CHANNELS}`, '-D', `plughw:${cardId},0`];
+    }
+
+    const sinkName = resolveSinkName(deviceId);
+    return sinkName ? ['pacat', '--playback', ...pcmArgs, `--device=${sinkName}`] : null;
+  }
+
+  private handleOutputFailure(deviceId: string, error: Error): void {
+    console.error(`Audio engine: output stream ${deviceId} failed:`, error.message);
+
+    // Voices lose the broken output; a voice with nothing left to play on fails
+    Array.from(this.voices.values()).forEach(voice => {
+      if (!voice.outputs.some(output => output.deviceId === deviceId)) return;
+      voice.outputs = voice.outputs.filter(output => output.deviceId !== deviceId);
+      if (voice.outputs.length === 0) {
+        this.voices.delete(voice.voiceId);
+        this.emit('voice-error', voice.voiceId, error);
+      }
+    });
+  }
+
+  private closeOutput(output: OutputStream): void {
+    output.failed = true; // Closing on purpose is not a failure worth reporting
+    output.process.stdin?.end();
+    output.process.kill();
+  }
+
+  private startMixing(): void {
+    if (this.mixTimer) return;
+
+    this.clockStart = Date.now();
+    this.framesMixed = 0;
+    this.mixTimer = setInterval(() => this.mixTick(), MIX_INTERVAL_MS);
+    this.mixTick();
+  }
+
+  private stopMixing(): void {
+    if (this.mixTimer) {
+      clearInterval(this.mixTimer);
+      this.mixTimer = null;
+    }
+  }
+
+  private mixTick(): void {
+    if (!Array.from(this.voices.values()).some(voice => !voice.paused)) {
+      // Outputs drain what is already queued and then idle until the next play() or resume()
+      this.stopMixing();
+      return;
+    }
+
+    const elapsedFrames = this.getElapsedFrames();
+    const leadFrames = Math.floor(OUTPUT_LEAD_MS * ENGINE_SAMPLE_RATE / 1000);
+    const frameCount = elapsedFrames + leadFrames - this.framesMixed;
+    if (frameCount <= 0) return;
+
+    this.outputs.forEach(output => {
+      if (!output.failed) {
+        output.process.stdin?.write(this.mixBlock(output.deviceId, frameCount));
+      }
+    });
+    this.framesMixed += frameCount;
+
+    // Advance voices once per block, after every output has read them. A voice
+    // only ends once its last frame has left the output queue, not when it was mixed
+    const queuedFrames = Math.max(0, this.framesMixed - elapsedFrames);
+    const endedVoices: string[] = [];
+    this.voices.forEach(voice => {
+      if (voice.paused) return;
+      voice.position += frameCount;
+      if (voice.position - queuedFrames >= voice.endFrame) {
+        endedVoices.push(voice.voiceId);
+      }
+    });
+
+    endedVoices.forEach(voiceId => {
+      this.voices.delete(voiceId);
+      this.emit('voice-ended', voiceId);
+    });
+  }
+
+  private getElapsedFrames(): number {
+    return Math.floor((Date.now() - this.clockStart) * ENGINE_SAMPLE_RATE / 1000);
+  }
+
+  private mixBlock(deviceId: string, frameCount: number): Buffer {
+    const mix = new Float32Array(frameCount * ENGINE_CHANNELS);
+
+    this.voices.forEach(voice => {
+      const target = voice.outputs.find(output => output.deviceId === deviceId);
+      if (voice.paused || !target) return;
+
+      const available = Math.min(frameCount, voice.endFrame - voice.position);
+      if (available <= 0) return;
+      const gain = voice.gain * target.gain;
+      for (let frame = 0; frame < available; frame++) {
+        const position = voice.position + frame;
+        let level = gain;
+        if (position - voice.startFrame < voice.fadeInFrames) {
+          level *= (position - voice.startFrame) / voice.fadeInFrames;
+        }
+        if (voice.endFrame - position < voice.fadeOutFrames) {
+          level = Math.min(level, gain * (voice.endFrame - position - 1) / voice.fadeOutFrames);
+        }
+        for (let channel = 0; channel < ENGINE_CHANNELS; channel++) {
+          mix[frame * ENGINE_CHANNELS + channel] += voice.clip.channels[channel][position] * level;
+        }
+      }
+    });
+
+    const block = Buffer.alloc(mix.length * 2);
+    for (let i = 0; i < mix.length; i++) {
+      const sample = Math.max(-1, Math.min(1, mix[i]));
+      block.writeInt16LE(Math.round(sample * 32767), i * 2);
+    }
+    return block;
+  }
+}
+
+// Linear-interpolation resampler; good enough for speech and sound effects
+function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || input.length === 0) {
+    return input;
+  }
+
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const next = index + 1 < input.length ? input[index + 1] : input[index];
+    output[i] = input[index] + (next - input[index]) * fraction;
+  }
+  return output;
+}
@@ -0,0 +1,102 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { readWavInfo } from './wavFile';
+
+// Formats the file dialog offers and drops accept; everything but WAV goes through ffmpeg
+export const IMPORTABLE_EXTENSIONS = ['wav', 'mp3', 'ogg', 'oga', 'opus', 'flac', 'm4a', 'aac'];
+
+// Same rate and depth as recordings; the channel count of the source is kept
+const LIBRARY_SAMPLE_RATE = 44100;
+
+// WAV encodings the player decodes itself (integer PCM and IEEE float)
+const PLAYABLE_WAV_FORMATS = [1, 3];
+
+export interface ImportedAudio {
+  filePath: string;
+  duration: number; // seconds, from the written WAV
+}
+
+/**
+ * Bring an audio file into the clips directory as a WAV the player can read. Playable
+ * WAVs are copied as they are, anything else is decoded with ffmpeg. The file is
+ * written under a hidden name first so the library watcher never sees it half done.
+ */
+export async function importAudioFile(sourcePath: string, clipsDirectory: string): Promise<ImportedAudio> {
+  const extension = path.extname(sourcePath).slice(1).toLowerCase();
+  if (!IMPORTABLE_EXTENSIONS.includes(extension)) {
+    throw new Error(`.${extension} files can't be imported`);
+  }
+
+  const baseName = path.basename(sourcePath, path.extname(sourcePath));
+  const tempPath = path.join(clipsDirectory, `.importing-${Date.now()}-${baseName}.wav`);
+
+  try {
+    if (extension === 'wav' && isPlayableWav(sourcePath)) {
+      await fs.promises.copyFile(sourcePath, tempPath);
+    } else {
+      await decodeToWav(sourcePath, tempPath);
+    }
+
+    const { duration } = readWavInfo(tempPath);
+    if (duration <= 0) {
+      throw new Error('The file contains no audio');
+    }
+
+    const filePath = getFreeFilePath(clipsDirectory, baseName);
+    await fs.promises.rename(tempPath, filePath);
+    return { filePath, duration: Math.round(duration * 100) / 100 };
+  } catch (error) {
+    await fs.promises.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+function isPlayableWav(filePath: string): boolean {
+  try {
+    return PLAYABLE_WAV_FORMATS.includes(readWavInfo(filePath).format.audioFormat);
+  } catch (error) {
+    return false;
+  }
+}
+
+function decodeToWav(sourcePath: string, targetPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn('ffmpeg', [
+      '-nostdin', '-hide_banner', '-loglevel', 'error', '-y',
+      '-i', sourcePath,
+      '-vn', '-map_metadata', '-1',
+      '-ar', String(LIBRARY_SAMPLE_RATE), '-c:a', 'pcm_s16le', '-f', 'wav',
+      targetPath
+    ], { stdio: ['ignore', 'ignore', 'pipe'] });
+
+    let stderr = '';
+    ffmpeg.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    ffmpeg.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT'
+        ? new Error('ffmpeg is needed to import this format; install it and try again')
+        : error);
+    });
+
+    ffmpeg.on('exit', code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        const reason = stderr.trim().split('\n').pop();
+        reject(new Error(`ffmpeg could not decode the file${reason ? `: ${reason}` : ''}`));
+      }
+    });
+  });
+}
+
+// "name.wav", or "name (2).wav" and up when that is taken; an empty extension names a folder
+export function getFreeFilePath(directory: string, baseName: string, extension = '.wav'): string {
+  let filePath = path.join(directory, `${baseName}${extension}`);
+  for (let counter = 2; fs.existsSync(filePath); counter++) {
+    filePath = path.join(directory, `${baseName} (${counter})${extension}`);
+  }
+  return filePath;
+}
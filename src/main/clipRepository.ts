@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AudioClip } from '../shared/types';
+
+// Bump together with a new entry in MIGRATIONS whenever the stored clip shape changes
+export const CLIP_LIBRARY_SCHEMA_VERSION = 2;
+
+// Dates are kept as ISO strings on disk
+type StoredClip = Omit<AudioClip, 'createdAt'> & { createdAt: string };
+
+interface ClipLibraryFile {
+  schemaVersion: number;
+  clips: unknown[];
+}
+
+// Stored clips before migration, of which only the keys are known
+type ClipRecord = Record<string, unknown> & { id: string; filePath: string };
+
+/**
+ * Forward migrations keyed by the version they produce. Each one receives the clips as
+ * stored by the previous version and must not assume any field beyond what that version
+ * guaranteed. Version 0 is the plain array electron-store used to keep under `clips`.
+ */
+const MIGRATIONS: Record<number, (clips: unknown[]) => unknown[]> = {
+  // Dates were whatever electron-store serialized, sometimes missing
+  1: clips => clips
+    .filter(isClipRecord)
+    .map(clip => ({
+      ...clip,
+      name: typeof clip.name === 'string' ? clip.name : path.basename(clip.filePath),
+      duration: typeof clip.duration === 'number' ? clip.duration : 0,
+      createdAt: toIsoDate(clip.createdAt)
+    })),
+
+  // System audio captures used to be recognised by their names only
+  2: clips => clips.filter(isClipRecord).map(clip => {
+    if (clip.source) return clip;
+    const isSystemAudio = String(clip.name).startsWith('System_Audio_') || clip.filePath.includes('system_audio_');
+    return { ...clip, source: isSystemAudio ? 'system' : 'microphone' };
+  })
+};
+
+function isClipRecord(value: unknown): value is ClipRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const clip = value as Record<string, unknown>;
+  return typeof clip.id === 'string' && typeof clip.filePath === 'string';
+}
+
+// What every migration up to the current version guarantees
+function isStoredClip(value: unknown): value is StoredClip {
+  return isClipRecord(value) &&
+    typeof value.name === 'string' &&
+    typeof value.duration === 'number' &&
+    typeof value.createdAt === 'string' &&
+    typeof value.source === 'string';
+}
+
+function toIsoDate(value: unknown): string {
+  const date = value ? new Date(value as string) : new Date();
+  return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+/**
+ * The clip library, kept in its own versioned JSON file next to the app settings.
+ * Clips are indexed by id in memory and every change is written to disk atomically,
+ * so a crash mid-write leaves either the old or the new library, never a torn file.
+ */
+export class ClipRepository {
+  private clips = new Map<string, AudioClip>();
+  // A library written by a newer version is loaded but never overwritten
+  private readOnly = false;
+
+  constructor(private filePath: string, legacyClips?: unknown[]) {
+    this.load(legacyClips);
+  }
+
+  public getAll(): AudioClip[] {
+    return Array.from(this.clips.values(), clip => ({ ...clip }));
+  }
+
+  public get(id: string): AudioClip | undefined {
+    const clip = this.clips.get(id);
+    return clip ? { ...clip } : undefined;
+  }
+
+  public has(id: string): boolean {
+    return this.clips.has(id);
+  }
+
+  public get count(): number {
+    return this.clips.size;
+  }
+
+  // Insert a new clip or replace an existing one in place
+  public save(clip: AudioClip): AudioClip {
+    const previous = this.clips.get(clip.id);
+    const stored = { ...clip, createdAt: new Date(toIsoDate(clip.createdAt)) };
+    this.clips.set(clip.id, stored);
+
+    try {
+      this.persist();
+    } catch (error) {
+      if (previous) {
+        this.clips.set(clip.id, previous);
+      } else {
+        this.clips.delete(clip.id);
+      }
+      throw error;
+    }
+    return { ...stored };
+  }
+
+  // If the write fails the clip keeps its previous state
+  public update(id: string, changes: Partial<Omit<AudioClip, 'id'>>): AudioClip | null {
+    const clip = this.clips.get(id);
+    if (!clip) return null;
+
+    const updated = { ...clip, ...changes, id };
+    this.clips.set(id, updated);
+
+    try {
+      this.persist();
+    } catch (error) {
+      this.clips.set(id, clip);
+      throw error;
+    }
+    return { ...updated };
+  }
+
+  // Apply several updates with a single write; if the write fails none of them stick
+  public updateMany(updates: { id: string; changes: Partial<Omit<AudioClip, 'id'>> }[]): void {
+    const previous = new Map<string, AudioClip>();
+    updates.forEach(({ id, changes }) => {
+      const clip = this.clips.get(id);
+      if (!clip) return;
+      if (!previous.has(id)) {
+        previous.set(id, clip);
+      }
+      this.clips.set(id, { ...clip, ...changes, id });
+    });
+
+    try {
+      this.persist();
+    } catch (error) {
+      previous.forEach((clip, id) => this.clips.set(id, clip));
+      throw error;
+    }
+  }
+
+  public delete(id: string): boolean {
+    const clip = this.clips.get(id);
+    if (!clip) return false;
+    this.clips.delete(id);
+
+    try {
+      this.persist();
+    } catch (error) {
+      this.clips.set(id, clip);
+      throw error;
+    }
+    return true;
+  }
+
+  private load(legacyClips?: unknown[]): void {
+    let library: ClipLibraryFile;
+
+    if (fs.existsSync(this.filePath)) {
+      try {
+        library = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        if (typeof library.schemaVersion !== 'number' || !Array.isArray(library.clips)) {
+          throw new Error('Missing schemaVersion or clips');
+        }
+      } catch (error) {
+        // Keep the unreadable file for recovery rather than overwriting it
+        const aside = `${this.filePath}.corrupt-${Date.now()}`;
+        fs.renameSync(this.filePath, aside);
+        console.error(`Clip library was unreadable, moved it to ${aside}:`, error);
+        library = { schemaVersion: CLIP_LIBRARY_SCHEMA_VERSION, clips: [] };
+      }
+    } else {
+      library = { schemaVersion: 0, clips: Array.isArray(legacyClips) ? legacyClips : [] };
+    }
+
+    if (library.schemaVersion > CLIP_LIBRARY_SCHEMA_VERSION) {
+      console.warn(`Clip library has schema version ${library.schemaVersion}, newer than ${CLIP_LIBRARY_SCHEMA_VERSION}; changes will not be saved`);
+      this.readOnly = true;
+    }
+
+    const startVersion = library.schemaVersion;
+    let clips: unknown[] = library.clips;
+    for (let version = startVersion + 1; version <= CLIP_LIBRARY_SCHEMA_VERSION; version++) {
+      clips = MIGRATIONS[version](clips);
+    }
+
+    const storedClips = clips.filter(isStoredClip);
+    if (storedClips.length < clips.length) {
+      console.warn(`Skipped ${clips.length - storedClips.length} malformed clips in the library`);
+    }
+    storedClips.forEach(clip => {
+      this.clips.set(clip.id, { ...clip, createdAt: new Date(clip.createdAt) });
+    });
+
+    if (startVersion < CLIP_LIBRARY_SCHEMA_VERSION) {
+      console.log(`Migrated clip library from schema version ${startVersion} to ${CLIP_LIBRARY_SCHEMA_VERSION} (${this.clips.size} clips)`);
+      this.persist();
+    }
+  }
+
+  // Write to a temporary file, flush it and rename it over the library
+  private persist(): void {
+    if (this.readOnly) return;
+
+    const library: ClipLibraryFile = {
+      schemaVersion: CLIP_LIBRARY_SCHEMA_VERSION,
+      clips: Array.from(this.clips.values(), clip => ({ ...clip, createdAt: clip.createdAt.toISOString() }))
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(library, null, 2));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,67 @@
+import { RecordingFormat, RecordingLevels } from '../shared/types';
+
+// How often levels are reported while recording
+const LEVEL_INTERVAL_SECONDS = 0.05;
+
+// Quieter than this reads as no signal at all
+const LEVEL_FLOOR_DB = -90;
+
+// Samples this close to full scale count as clipped
+const CLIP_LEVEL = 0.999;
+
+// Rounded to a tenth, with full scale as 0 rather than -0
+function toDb(level: number): number {
+  return Math.round(Math.max(LEVEL_FLOOR_DB, 20 * Math.log10(level || 1e-10)) * 10) / 10 || 0;
+}
+
+/**
+ * Measures RMS and peak of raw little-endian integer PCM as it streams in, and
+ * reports them once per interval. Chunks may split a sample; the leftover bytes
+ * are kept for the next chunk.
+ */
+export class LevelMeter {
+  private readonly bytesPerSample: number;
+  private readonly fullScale: number;
+  private readonly samplesPerReport: number;
+  private remainder: Buffer = Buffer.alloc(0);
+  private sumSquares = 0;
+  private peak = 0;
+  private sampleCount = 0;
+  private clipped = false;
+
+  constructor(format: RecordingFormat, private onLevels: (levels: RecordingLevels) => void) {
+    this.bytesPerSample = format.bitDepth / 8;
+    this.fullScale = Math.pow(2, format.bitDepth - 1);
+    this.samplesPerReport = Math.max(1, Math.round(format.sampleRate * format.channels * LEVEL_INTERVAL_SECONDS));
+  }
+
+  public push(chunk: Buffer): void {
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk;
+    const usable = data.length - (data.length % this.bytesPerSample);
+
+    for (let offset = 0; offset < usable; offset += this.bytesPerSample) {
+      const level = Math.abs(data.readIntLE(offset, this.bytesPerSample)) / this.fullScale;
+      this.sumSquares += level * level;
+      if (level > this.peak) this.peak = level;
+      if (level >= CLIP_LEVEL) this.clipped = true;
+
+      if (++this.sampleCount >= this.samplesPerReport) {
+        this.report();
+      }
+    }
+
+    this.remainder = Buffer.from(data.subarray(usable));
+  }
+
+  private report(): void {
+    this.onLevels({
+      rmsDb: toDb(Math.sqrt(this.sumSquares / this.sampleCount)),
+      peakDb: toDb(this.peak),
+      clipped: this.clipped
+    });
+    this.sumSquares = 0;
+    this.peak = 0;
+    this.sampleCount = 0;
+    this.clipped = false;
+  }
+}
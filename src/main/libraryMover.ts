@@ -0,0 +1,188 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AudioClip, LibraryMoveProgress } from '../shared/types';
+
+// One file of the library and every clip that plays it
+export interface PlannedFileMove {
+  from: string;
+  to: string;
+  size: number;
+  clipIds: string[];
+}
+
+export interface LibraryMovePlan {
+  files: PlannedFileMove[];
+  skippedClipIds: string[]; // Clips whose file is already missing; they keep their path
+}
+
+type ProgressCallback = (progress: LibraryMoveProgress) => void;
+
+/**
+ * Work out where every clip file goes. Files below the old clips directory keep their
+ * subfolder, clips that live elsewhere are copied to the new folder's top level. Throws before
+ * anything is touched when the move can't be done cleanly.
+ */
+export function planLibraryMove(clips: AudioClip[], fromDirectory: string, toDirectory: string): LibraryMovePlan {
+  const from = path.resolve(fromDirectory);
+  const to = path.resolve(toDirectory);
+
+  if (from === to) {
+    throw new Error('The clips are already in that folder');
+  }
+  if (isInside(to, from)) {
+    throw new Error('The new folder is inside the current clips folder');
+  }
+  // The new library would contain the old one, and scanning it would import every clip again
+  if (isInside(from, to)) {
+    throw new Error('The current clips folder is inside the new folder');
+  }
+
+  const files = new Map<string, PlannedFileMove>(); // source path -> move
+  const targets = new Set<string>();
+  const skippedClipIds: string[] = [];
+
+  clips.forEach(clip => {
+    const source = path.resolve(clip.filePath);
+    const planned = files.get(source);
+    if (planned) {
+      planned.clipIds.push(clip.id);
+      return;
+    }
+
+    if (!fs.existsSync(source)) {
+      skippedClipIds.push(clip.id);
+      return;
+    }
+
+    const target = isInside(source, from)
+      ? path.join(to, path.relative(from, source))
+      : path.join(to, path.basename(source));
+    if (targets.has(target) || fs.existsSync(target)) {
+      throw new Error(`${target} already exists`);
+    }
+
+    targets.add(target);
+    files.set(source, { from: source, to: target, size: fs.statSync(source).size, clipIds: [clip.id] });
+  });
+
+  return { files: Array.from(files.values()), skippedClipIds };
+}
+
+export interface LibraryCopy {
+  files: PlannedFileMove[];
+  createdFolders: string[]; // Outermost folders the copy had to create
+}
+
+// Copy every file and check each copy against its original; a failure removes the copies made so far
+export async function copyLibraryFiles(plan: LibraryMovePlan, onProgress: ProgressCallback): Promise<LibraryCopy> {
+  const bytesTotal = plan.files.reduce((sum, file) => sum + file.size, 0);
+  const copied: PlannedFileMove[] = [];
+  const createdFolders: string[] = [];
+  let bytesDone = 0;
+
+  try {
+    for (const file of plan.files) {
+      onProgress({ phase: 'copying', filesDone: copied.length, filesTotal: plan.files.length, bytesDone, bytesTotal, currentFile: file.from });
+
+      const created = await fs.promises.mkdir(path.dirname(file.to), { recursive: true });
+      if (created) {
+        createdFolders.push(created);
+      }
+      // Never overwrite a file that showed up since the plan was made
+      await fs.promises.copyFile(file.from, file.to, fs.constants.COPYFILE_EXCL);
+      copied.push(file);
+
+      const [sourceHash, copyHash] = await Promise.all([hashFile(file.from), hashFile(file.to)]);
+      if (sourceHash !== copyHash) {
+        throw new Error(`The copy of ${file.from} does not match the original`);
+      }
+      bytesDone += file.size;
+    }
+    onProgress({ phase: 'copying', filesDone: copied.length, filesTotal: plan.files.length, bytesDone, bytesTotal });
+  } catch (error) {
+    await discardCopies({ files: copied, createdFolders }, onProgress);
+    throw error;
+  }
+
+  return { files: copied, createdFolders };
+}
+
+// Undo a copy: delete the copied files and the folders that were made for them
+export async function discardCopies(copy: LibraryCopy, onProgress: ProgressCallback): Promise<void> {
+  const bytesTotal = copy.files.reduce((sum, file) => sum + file.size, 0);
+  onProgress({ phase: 'rolling-back', filesDone: 0, filesTotal: copy.files.length, bytesDone: 0, bytesTotal });
+
+  for (const file of copy.files) {
+    try {
+      await fs.promises.unlink(file.to);
+    } catch (error) {
+      console.error(`Could not remove copied file ${file.to}:`, error);
+    }
+  }
+
+  for (const folder of [...copy.createdFolders].reverse()) {
+    await pruneEmptyFolders(folder);
+    await fs.promises.rmdir(folder).catch(() => undefined);
+  }
+}
+
+// After a move the originals go; returns the ones that could not be deleted. Files that
+// lived outside the clips directory were only copied in and stay where the user put them.
+export async function removeOriginals(plan: LibraryMovePlan, fromDirectory: string, onProgress: ProgressCallback): Promise<string[]> {
+  const from = path.resolve(fromDirectory);
+  const owned = plan.files.filter(file => isInside(file.from, from));
+  const bytesTotal = owned.reduce((sum, file) => sum + file.size, 0);
+  const leftovers: string[] = [];
+  let bytesDone = 0;
+
+  for (const [index, file] of owned.entries()) {
+    onProgress({ phase: 'removing-originals', filesDone: index, filesTotal: owned.length, bytesDone, bytesTotal, currentFile: file.from });
+    try {
+      await fs.promises.unlink(file.from);
+    } catch (error) {
+      console.error(`Could not remove ${file.from} after moving it:`, error);
+      leftovers.push(file.from);
+    }
+    bytesDone += file.size;
+  }
+
+  await pruneEmptyFolders(fromDirectory);
+  return leftovers;
+}
+
+function isInside(filePath: string, directory: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+// Remove subfolders left empty, keeping the directory itself
+async function pruneEmptyFolders(directory: string): Promise<void> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(directory, { withFileTypes: true });
+  } catch (error) {
+    return;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const folder = path.join(directory, entry.name);
+    await pruneEmptyFolders(folder);
+    try {
+      await fs.promises.rmdir(folder);
+    } catch (error) {
+      // Not empty, keep it
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AudioClip } from '../shared/types';
+import { readWavInfo } from './wavFile';
+
+// Extensions recognised as audio; the scan only adds WAVs, the rest go through importClips
+const AUDIO_EXTENSIONS = ['.wav', '.mp3', '.ogg', '.flac', '.m4a', '.aac', '.opus'];
+
+export interface ScannedFile {
+  filePath: string;
+  duration: number; // seconds, from the WAV header
+  modifiedAt: Date;
+}
+
+export interface LibraryScan {
+  missing: AudioClip[]; // Clips whose file no longer exists
+  relinks: { clip: AudioClip; file: ScannedFile }[]; // Missing clips found again under another folder
+  newFiles: ScannedFile[]; // Playable files no clip points at
+  unsupportedFiles: string[]; // Audio files that are not readable WAVs
+}
+
+/**
+ * Compare the clip library with the audio files under the clips directory. Nothing is
+ * changed here; the caller decides what to import, relink or flag.
+ *
+ * A missing clip is relinked when exactly one unknown file has its file name, which is
+ * what moving a file between subfolders of the clips directory looks like.
+ */
+export function scanLibrary(clips: AudioClip[], directory: string, ignore: string[] = []): LibraryScan {
+  const knownPaths = new Set(clips.map(clip => path.resolve(clip.filePath)));
+  const ignored = new Set(ignore.map(filePath => path.resolve(filePath)));
+
+  const newFiles: ScannedFile[] = [];
+  const unsupportedFiles: string[] = [];
+
+  listAudioFiles(directory).forEach(filePath => {
+    if (knownPaths.has(filePath) || ignored.has(filePath)) return;
+
+    if (path.extname(filePath).toLowerCase() !== '.wav') {
+      unsupportedFiles.push(filePath);
+      return;
+    }
+
+    try {
+      newFiles.push({
+        filePath,
+        duration: Math.round(readWavInfo(filePath).duration * 100) / 100,
+        modifiedAt: fs.statSync(filePath).mtime
+      });
+    } catch (error) {
+      console.log(`Skipping unreadable audio file ${filePath}:`, error instanceof Error ? error.message : error);
+      unsupportedFiles.push(filePath);
+    }
+  });
+
+  const missing = clips.filter(clip => !fs.existsSync(clip.filePath));
+  const relinks: LibraryScan['relinks'] = [];
+
+  missing.forEach(clip => {
+    const name = path.basename(clip.filePath);
+    const candidates = newFiles.filter(file => path.basename(file.filePath) === name);
+    const sameName = missing.filter(other => path.basename(other.filePath) === name);
+    if (candidates.length === 1 && sameName.length === 1) {
+      relinks.push({ clip, file: candidates[0] });
+    }
+  });
+
+  const relinkedPaths = new Set(relinks.map(relink => relink.file.filePath));
+  const relinkedIds = new Set(relinks.map(relink => relink.clip.id));
+
+  return {
+    missing: missing.filter(clip => !relinkedIds.has(clip.id)),
+    relinks,
+    newFiles: newFiles.filter(file => !relinkedPaths.has(file.filePath)),
+    unsupportedFiles
+  };
+}
+
+export function isAudioFile(fileName: string): boolean {
+  return AUDIO_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+// Every audio file below the directory, skipping hidden entries and partial writes
+function listAudioFiles(directory: string): string[] {
+  if (!fs.existsSync(directory)) return [];
+
+  const files: string[] = [];
+  fs.readdirSync(directory, { withFileTypes: true }).forEach(entry => {
+    if (entry.name.startsWith('.')) return;
+
+    const entryPath = path.resolve(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listAudioFiles(entryPath));
+    } else if (entry.isFile() && isAudioFile(entry.name)) {
+      files.push(entryPath);
+    }
+  });
+  return files;
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isAudioFile } from './libraryScanner';
+
+// Sync clients and recorders write a file in several steps; wait for them to settle
+const SETTLE_DELAY_MS = 1000;
+
+/**
+ * Watches the clips directory and its subfolders and reports settled changes to audio
+ * files. Recursive fs.watch is not available on Linux in Electron's Node, so every
+ * folder gets its own watcher and the set is refreshed after each change.
+ */
+export class LibraryWatcher {
+  private watchers = new Map<string, fs.FSWatcher>();
+  private directory: string | null = null;
+  private settleTimer: NodeJS.Timeout | null = null;
+
+  constructor(private onChange: () => void) {}
+
+  public start(directory: string): void {
+    this.stop();
+    this.directory = path.resolve(directory);
+    this.syncWatchers();
+    console.log(`Watching ${this.directory} for clip changes (${this.watchers.size} folders)`);
+  }
+
+  public stop(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+    this.directory = null;
+  }
+
+  // Watch every folder that exists now and drop watchers of folders that are gone
+  private syncWatchers(): void {
+    if (!this.directory) return;
+
+    const folders = new Set(listFolders(this.directory));
+    this.watchers.forEach((watcher, folder) => {
+      if (!folders.has(folder)) {
+        watcher.close();
+        this.watchers.delete(folder);
+      }
+    });
+
+    folders.forEach(folder => {
+      if (this.watchers.has(folder)) return;
+      try {
+        const watcher = fs.watch(folder, (_, fileName) => this.handleEvent(fileName));
+        watcher.on('error', error => {
+          console.log(`Stopped watching ${folder}:`, error.message);
+          watcher.close();
+          this.watchers.delete(folder);
+        });
+        this.watchers.set(folder, watcher);
+      } catch (error) {
+        console.log(`Could not watch ${folder}:`, error instanceof Error ? error.message : error);
+      }
+    });
+  }
+
+  private handleEvent(fileName: string | Buffer | null): void {
+    const name = fileName ? fileName.toString() : '';
+    // Other files (sync metadata, temp files) don't matter; names without an extension may be folders
+    if (name && (name.startsWith('.') || (path.extname(name) && !isAudioFile(name)))) return;
+
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+    }
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = null;
+      this.syncWatchers();
+      this.onChange();
+    }, SETTLE_DELAY_MS);
+  }
+}
+
+function listFolders(directory: string): string[] {
+  if (!fs.existsSync(directory)) return [];
+
+  const folders = [directory];
+  fs.readdirSync(directory, { withFileTypes: true }).forEach(entry => {
+    if (entry.isDirectory() && !entry.name.startsWith('.')) {
+      folders.push(...listFolders(path.join(directory, entry.name)));
+    }
+  });
+  return folders;
+}
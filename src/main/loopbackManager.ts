@@ -0,0 +1,128 @@
+import { LoopbackTarget, LoopbackTargetStatus } from '../shared/types';
+import { AppStore } from './appStore';
+import { listPulseEntries, loadModule, unloadModule } from './pulseAudio';
+
+const LOOPBACK_LATENCY_MS = 30;
+
+// Copy the monitor of one sink into another sink
+export interface LoopbackRoute {
+  source: string; // e.g. soundboard-output.monitor
+  sink: string;
+}
+
+interface LoopbackRecord extends LoopbackRoute {
+  moduleId: string;
+}
+
+export type LoopbackRecords = Partial<Record<LoopbackTarget, LoopbackRecord>>;
+
+/**
+ * Owns the PulseAudio module-loopback instances behind speaker/headphone monitoring.
+ * Module ids are persisted so modules left behind by a crash are found again on startup,
+ * and only modules this manager loaded are ever unloaded.
+ */
+export class LoopbackManager {
+  private records: LoopbackRecords;
+  private errors: Partial<Record<LoopbackTarget, string>> = {};
+
+  constructor(private store: AppStore) {
+    this.records = this.store.get('loopbackModules', {});
+  }
+
+  // Bring a target in line with the wanted route; null removes its loopback
+  public apply(target: LoopbackTarget, route: LoopbackRoute | null): void {
+    delete this.errors[target];
+    const current = this.getLiveRecord(target);
+
+    if (current && route && current.source === route.source && current.sink === route.sink) {
+      return;
+    }
+
+    if (current) {
+      this.unload(target, current);
+    }
+
+    if (route) {
+      try {
+        const moduleId = loadModule('module-loopback', [
+          `source=${route.source}`,
+          `sink=${route.sink}`,
+          `latency_msec=${LOOPBACK_LATENCY_MS}`,
+          'source_dont_move=true',
+          'sink_dont_move=true'
+        ]);
+        console.log(`Loaded ${target} loopback module ${moduleId}: ${route.source} -> ${route.sink}`);
+        this.records[target] = { ...route, moduleId };
+        this.save();
+      } catch (error) {
+        console.error(`Failed to load ${target} loopback:`, error);
+        this.errors[target] = error instanceof Error ? error.message : String(error);
+      }
+    }
+  }
+
+  // Record why a target cannot have a loopback, removing any module it still has
+  public fail(target: LoopbackTarget, message: string): void {
+    this.apply(target, null);
+    this.errors[target] = message;
+  }
+
+  public getStatus(target: LoopbackTarget): LoopbackTargetStatus {
+    const record = this.getLiveRecord(target);
+    return {
+      active: !!record,
+      method: 'pulseaudio',
+      device: record?.sink,
+      moduleId: record?.moduleId,
+      error: this.errors[target]
+    };
+  }
+
+  public unloadAll(): void {
+    (Object.keys(this.records) as LoopbackTarget[]).forEach(target => {
+      const record = this.getLiveRecord(target);
+      if (record) {
+        this.unload(target, record);
+      }
+    });
+  }
+
+  // The stored record, if its module is still loaded and still ours. Module indexes are
+  // reused after a PulseAudio restart, so the arguments have to match as well
+  private getLiveRecord(target: LoopbackTarget): LoopbackRecord | null {
+    const record = this.records[target];
+    if (!record) return null;
+
+    try {
+      const loaded = listPulseEntries('modules').find(entry => entry.index === record.moduleId);
+      const args = loaded ? loaded.fields.slice(2).join('\t') : '';
+      if (loaded && loaded.name === 'module-loopback' &&
+          args.includes(`source=${record.source}`) && args.includes(`sink=${record.sink}`)) {
+        return record;
+      }
+    } catch (error) {
+      console.error('Failed to list PulseAudio modules:', error);
+      return null;
+    }
+
+    console.log(`Forgetting stale ${target} loopback module ${record.moduleId}`);
+    delete this.records[target];
+    this.save();
+    return null;
+  }
+
+  private unload(target: LoopbackTarget, record: LoopbackRecord): void {
+    try {
+      unloadModule(record.moduleId);
+      console.log(`Unloaded ${target} loopback module ${record.moduleId}`);
+    } catch (error) {
+      console.error(`Failed to unload ${target} loopback module ${record.moduleId}:`, error);
+    }
+    delete this.records[target];
+    this.save();
+  }
+
+  private save(): void {
+    this.store.set('loopbackModules', this.records);
+  }
+}
@@ -0,0 +1,125 @@
+import { ClipLoudness } from '../shared/types';
+import { DecodedWav } from './wavFile';
+
+// Anything quieter reads as silence, both for the peak and the loudness estimate
+const SILENCE_FLOOR_DB = -70;
+
+// Loudness blocks per ITU-R BS.1770: 400 ms long, a new one every 100 ms
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// Normalization never pushes the loudest sample above this, so quiet clips don't clip
+const PEAK_CEILING_DB = -1;
+const MAX_NORMALIZATION_GAIN_DB = 24;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// The two K-weighting stages (high shelf, then high pass) worked out for the sample rate
+function getKWeightingFilters(sampleRate: number): Biquad[] {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, filter: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = filter.b0 * x + filter.b1 * x1 + filter.b2 * x2 - filter.a1 * y1 - filter.a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+function toLufs(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+/**
+ * Measure the sample peak and an integrated loudness estimate (BS.1770 K-weighting and
+ * gating, every channel weighted equally). Clips shorter than one block are measured
+ * as a single block.
+ */
+export function measureLoudness(decoded: DecodedWav): ClipLoudness {
+  let peak = 0;
+  decoded.channels.forEach(channel => {
+    for (let i = 0; i < channel.length; i++) {
+      const level = Math.abs(channel[i]);
+      if (level > peak) peak = level;
+    }
+  });
+
+  const filters = getKWeightingFilters(decoded.format.sampleRate);
+  const weighted = decoded.channels.map(channel => filters.reduce(applyBiquad, channel));
+
+  const blockFrames = Math.min(decoded.frameCount, Math.round(BLOCK_SECONDS * decoded.format.sampleRate));
+  const stepFrames = Math.max(1, Math.round(BLOCK_STEP_SECONDS * decoded.format.sampleRate));
+  const blocks: number[] = []; // Mean square of each block, summed over channels
+  for (let start = 0; blockFrames > 0 && start + blockFrames <= decoded.frameCount; start += stepFrames) {
+    let power = 0;
+    weighted.forEach(channel => {
+      let sum = 0;
+      for (let i = start; i < start + blockFrames; i++) {
+        sum += channel[i] * channel[i];
+      }
+      power += sum / blockFrames;
+    });
+    blocks.push(power);
+  }
+
+  const audible = blocks.filter(power => power > 0 && toLufs(power) > ABSOLUTE_GATE_LUFS);
+  let integratedLufs = SILENCE_FLOOR_DB;
+  if (audible.length > 0) {
+    const relativeGate = toLufs(audible.reduce((sum, power) => sum + power, 0) / audible.length) + RELATIVE_GATE_LU;
+    const gated = audible.filter(power => toLufs(power) > relativeGate);
+    integratedLufs = toLufs(gated.reduce((sum, power) => sum + power, 0) / gated.length);
+  }
+
+  return {
+    peakDb: Math.round(Math.max(SILENCE_FLOOR_DB, 20 * Math.log10(peak || 1e-10)) * 10) / 10,
+    integratedLufs: Math.round(Math.max(SILENCE_FLOOR_DB, integratedLufs) * 10) / 10
+  };
+}
+
+// Gain that brings a clip to the target loudness, held back where the peak would clip
+export function getNormalizationGainDb(loudness: ClipLoudness, targetLufs: number): number {
+  if (loudness.integratedLufs <= SILENCE_FLOOR_DB) return 0;
+
+  const gainDb = Math.min(targetLufs - loudness.integratedLufs, PEAK_CEILING_DB - loudness.peakDb, MAX_NORMALIZATION_GAIN_DB);
+  return Math.round(gainDb * 10) / 10;
+}
@@ -3,50 +3,146 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import Store from 'electron-store';
-import { AudioClip, AudioDevice, AppSettings, IPC_CHANNELS, RecordingState, PlaybackState } from '../shared/types';
-
-// Type the store properly
-interface StoreSchema {
-  clipsDirectory?: string;
-  clips?: AudioClip[];
-  settings?: Partial<AppSettings>;
+import { AudioClip, AudioDevice, AppSettings, IPC_CHANNELS, RecordingState, PlaybackState, LoopbackTarget, LoopbackStatus, LoopbackTargetStatus, VirtualAudioStatus, MicPassthroughStatus, LibraryScanResult, ClipWaveform, ClipImportResult, SoundPackExportResult, SoundPackImportResult, LibraryNormalizeResult, LibraryMoveMode, LibraryMoveProgress, LibraryMoveResult, RecordingAutoTrim, RecordingFormat, ReplayBufferStatus } from '../shared/types';
+import { getNormalizationGainDb, measureLoudness } from './loudness';
+import { createS32ToS24Transform, dbToGain, findSoundBounds, getWaveformPeaks, parseWavHeader, readWavInfo, readWavSamples, trimWavFile, writeWavFile } from './wavFile';
+import { AudioEngine, OutputTarget } from './audioEngine';
+import { LevelMeter } from './levelMeter';
+import { ReplayBuffer, REPLAY_BUFFER_MIN_SECONDS, REPLAY_BUFFER_MAX_SECONDS } from './replayBuffer';
+import { listPulseEntries, resolveSinkName, getDefaultSinkName, getDefaultSourceName } from './pulseAudio';
+import { LoopbackManager, LoopbackRoute } from './loopbackManager';
+import { inspectVirtualAudio, ensureVirtualAudio, repairVirtualAudio, removeVirtualAudio, VirtualAudioOptions } from './virtualAudioManager';
+import { MicPassthrough } from './micPassthrough';
+import { AppStore, StoreSchema } from './appStore';
+import { ClipRepository } from './clipRepository';
+import { scanLibrary } from './libraryScanner';
+import { LibraryWatcher } from './libraryWatcher';
+import { importAudioFile, getFreeFilePath, IMPORTABLE_EXTENSIONS } from './audioImporter';
+import { getPackClipSettings, openSoundPack, toSafeFileName, writeSoundPack, SOUND_PACK_EXTENSION } from './soundPack';
+import { planLibraryMove, copyLibraryFiles, discardCopies, removeOriginals } from './libraryMover';
+
+// A single playing instance of a clip; the audio itself lives in the AudioEngine
+interface ActiveVoice {
+  voiceId: string;
+  clipId: string;
+  startTime: number;
 }
 
+// Where a microphone recording is captured from: an ALSA device for arecord or a PulseAudio source
+type MicrophoneInput = { kind: 'alsa'; device: string } | { kind: 'pulse'; source: string };
+
+const PROGRESS_UPDATE_INTERVAL_MS = 100;
+
+// Editors and sync tools save by deleting and recreating a file; a clip whose file
+// vanished is only removed once the file has stayed gone this long
+const VANISHED_CLIP_GRACE_MS = 10000;
+
+// Seconds of the quiet edge kept when auto trim cuts silence off a recording
+const SILENCE_TRIM_PADDING = 0.05;
+
+// Shortest ramp a stopped voice gets, enough to avoid the click of a hard cut
+const STOP_FADE_SECONDS = 0.03;
+
+// Recording formats offered in the settings; anything else falls back to the first entry
+const RECORDING_SAMPLE_RATES = [44100, 48000, 22050];
+const RECORDING_BIT_DEPTHS = [16, 24, 32];
+const RECORDING_CHANNELS = [1, 2];
+
+// A recording no bigger than a bare WAV header holds no audio
+const EMPTY_RECORDING_BYTES = 44;
+
+// Settings that decide which monitor loopbacks should exist
+const LOOPBACK_SETTING_KEYS: (keyof AppSettings)[] = [
+  'loopbackMethod',
+  'enableVirtualAudioRouting',
+  'virtualAudioDeviceId',
+  'outputDeviceId',
+  'enableSpeakerLoopback',
+  'speakerDeviceId',
+  'enableHeadphoneLoopback',
+  'headphoneDeviceId'
+];
+
+// Settings that change the modules of the virtual device chain
+const VIRTUAL_AUDIO_SETTING_KEYS: (keyof AppSettings)[] = [
+  'manageVirtualAudioDevices',
+  'virtualMicName',
+  'mixMicrophoneIntoVirtualMic',
+  'inputDeviceId'
+];
+
+// Settings that change the level of the passed-through microphone
+const MIC_PASSTHROUGH_SETTING_KEYS: (keyof AppSettings)[] = [
+  'mixMicrophoneIntoVirtualMic',
+  'micPassthroughGainDb',
+  'micPassthroughMuted',
+  'micPushToTalkHotkey',
+  'micDuckingEnabled',
+  'micDuckingDb'
+];
+
+// Settings that decide what the replay buffer captures
+const REPLAY_BUFFER_SETTING_KEYS: (keyof AppSettings)[] = [
+  'replayBufferEnabled',
+  'replayBufferSeconds',
+  'inputDeviceId',
+  'recordingSampleRate',
+  'recordingBitDepth',
+  'systemAudioChannels'
+];
+
 // Audio recording imports
 const mic = require('mic');
 const wav = require('wav');
 
-// Audio playback imports
-const player = require('play-sound')({});
-const { exec } = require('child_process');
-
 class SoundboardApp {
   private mainWindow: BrowserWindow | null = null;
-  private store: any;
+  private store: AppStore;
+  private clipRepository: ClipRepository;
+  private libraryScan: LibraryScanResult | null = null;
+  private libraryWatcher: LibraryWatcher;
+  private isMovingLibrary = false;
+  private vanishedClipIds = new Set<string>(); // Missing clips to remove when the grace period ends
+  private vanishedClipTimer: NodeJS.Timeout | null = null;
   private clipsDirectory: string;
   private isRecording = false;
   private recordingStream: any = null;
   private recordingStartTime: number = 0;
   private currentRecordingFile: string = '';
+  private currentRecordingFormat: RecordingFormat | null = null;
   private recordingTimeout: NodeJS.Timeout | null = null;
   private hotkeyMap = new Map<string, string>(); // hotkey -> clipId
-  private playbackState: PlaybackState = {
-    isPlaying: false,
-    currentClipId: undefined,
-    progress: 0,
-    startTime: 0
-  };
-  private currentPlayback: any = null;
+  private voices = new Map<string, ActiveVoice>(); // voiceId -> voice
+  private audioEngine = new AudioEngine();
+  private progressTimer: NodeJS.Timeout | null = null;
+  private loopbackManager: LoopbackManager;
+  private micPassthrough: MicPassthrough;
+  private pushToTalkHotkey: string | null = null;
+  private pushToTalkError: string | undefined;
+  private virtualDeviceAvailability = new Map<string, boolean>(); // deviceId -> exists, see isVirtualDeviceAvailable
+  private replayBuffer: ReplayBuffer;
+  private replayBufferError: string | undefined;
+  private replayBufferHotkey: string | null = null;
+  private replayBufferHotkeyError: string | undefined;
 
   constructor() {
-    this.store = new Store();
+    this.store = new Store<StoreSchema>();
+    this.loopbackManager = new LoopbackManager(this.store);
+    this.micPassthrough = new MicPassthrough(this.getSettings());
+    this.replayBuffer = new ReplayBuffer(reason => this.handleReplayBufferStopped(reason));
+    this.clipRepository = this.openClipRepository();
     this.clipsDirectory = this.getClipsDirectory();
     this.ensureClipsDirectory();
+    this.scanLibrary();
+    this.libraryWatcher = new LibraryWatcher(() => this.handleLibraryChange());
+    this.libraryWatcher.start(this.clipsDirectory);
     this.loadHotkeys();
+    this.setupAudioEngine();
+    this.refreshVirtualDeviceAvailability();
   }
 
   private getClipsDirectory(): string {
-    const userClipsDir = this.store.get('clipsDirectory') as string;
+    const userClipsDir = this.store.get('clipsDirectory');
     if (userClipsDir && fs.existsSync(userClipsDir)) {
       return userClipsDir;
     }
@@ -62,9 +158,28 @@ class SoundboardApp {
     }
   }
 
+  // Point the app at another clips directory; the store keeps it both as the startup
+  // location and in the settings the renderer sees
+  private setClipsDirectory(directory: string): void {
+    this.clipsDirectory = directory;
+    this.store.set('clipsDirectory', directory);
+    this.store.set('settings', { ...this.getSettings(), clipsDirectory: directory });
+    this.ensureClipsDirectory();
+    this.libraryWatcher.start(this.clipsDirectory);
+  }
+
+  // The first start with a clip library moves the clips out of electron-store
+  private openClipRepository(): ClipRepository {
+    const legacyClips = this.store.get('clips');
+    const repository = new ClipRepository(path.join(app.getPath('userData'), 'clip-library.json'), legacyClips);
+    if (legacyClips) {
+      this.store.delete('clips');
+    }
+    return repository;
+  }
+
   private loadHotkeys(): void {
-    const clips = this.store.get('clips', []) as AudioClip[];
-    clips.forEach(clip => {
+    this.clipRepository.getAll().forEach(clip => {
       if (clip.hotkey) {
         this.hotkeyMap.set(clip.hotkey, clip.id);
       }
@@ -120,8 +235,20 @@ class SoundboardApp {
       this.playClip(clipId);
     });
 
-    ipcMain.handle(IPC_CHANNELS.STOP_PLAYBACK, () => {
-      this.stopPlayback();
+    ipcMain.handle(IPC_CHANNELS.STOP_PLAYBACK, (_, clipId?: string) => {
+      this.stopPlayback(clipId);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.PAUSE_PLAYBACK, (_, clipId?: string) => {
+      this.pausePlayback(clipId);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.RESUME_PLAYBACK, (_, clipId?: string) => {
+      this.resumePlayback(clipId);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.SEEK_PLAYBACK, (_, { clipId, position }: { clipId: string; position: number }) => {
+      this.seekPlayback(clipId, position);
     });
 
     // Clip management
@@ -141,6 +268,56 @@ class SoundboardApp {
       return this.renameClip(id, name);
     });
 
+    ipcMain.handle(IPC_CHANNELS.SCAN_LIBRARY, () => {
+      return this.scanLibrary();
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GET_LIBRARY_SCAN, () => {
+      return this.libraryScan;
+    });
+
+    ipcMain.handle(IPC_CHANNELS.RELINK_CLIP, async (_, clipId: string) => {
+      return this.relinkClip(clipId);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GET_CLIP_WAVEFORM, (_, { clipId, bucketCount }: { clipId: string; bucketCount: number }) => {
+      return this.getClipWaveform(clipId, bucketCount);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.BAKE_CLIP_TRIM, (_, clipId: string) => {
+      return this.bakeClipTrim(clipId);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.UNDO_AUTO_TRIM, (_, clipId: string) => {
+      return this.clipRepository.get(clipId)
+        ? this.clipRepository.update(clipId, { trimStart: undefined, trimEnd: undefined })
+        : null;
+    });
+
+    ipcMain.handle(IPC_CHANNELS.IMPORT_CLIPS, async (_, filePaths?: string[]) => {
+      return this.importClips(filePaths);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.EXPORT_SOUND_PACK, async (_, clipIds?: string[]) => {
+      return this.exportSoundPack(clipIds);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.IMPORT_SOUND_PACK, async (_, packPath?: string) => {
+      return this.importSoundPack(packPath);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.NORMALIZE_LIBRARY, async (_, targetLufs: number) => {
+      return this.normalizeLibrary(targetLufs);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.CHOOSE_CLIPS_DIRECTORY, async () => {
+      return this.chooseClipsDirectory();
+    });
+
+    ipcMain.handle(IPC_CHANNELS.MOVE_LIBRARY, async (_, { directory, mode }: { directory: string; mode: LibraryMoveMode }) => {
+      return this.moveLibrary(directory, mode);
+    });
+
     // Settings
     ipcMain.handle(IPC_CHANNELS.GET_SETTINGS, async () => {
       const settings = this.getSettings();
@@ -201,10 +378,63 @@ class SoundboardApp {
     ipcMain.handle(IPC_CHANNELS.STOP_SYSTEM_AUDIO_CAPTURE, () => {
       return this.stopSystemAudioCapture();
     });
+
+    // Audio loopback management
+    ipcMain.handle(IPC_CHANNELS.ENABLE_SPEAKER_LOOPBACK, () => {
+      return this.setLoopbackEnabled('speaker', true);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.DISABLE_SPEAKER_LOOPBACK, () => {
+      return this.setLoopbackEnabled('speaker', false);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.ENABLE_HEADPHONE_LOOPBACK, () => {
+      return this.setLoopbackEnabled('headphone', true);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.DISABLE_HEADPHONE_LOOPBACK, () => {
+      return this.setLoopbackEnabled('headphone', false);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.GET_LOOPBACK_STATUS, () => {
+      return this.getLoopbackStatus();
+    });
+
+    // Virtual audio device management
+    ipcMain.handle(IPC_CHANNELS.GET_VIRTUAL_AUDIO_STATUS, () => {
+      return this.runVirtualAudioAction('inspect', inspectVirtualAudio);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.ENSURE_VIRTUAL_AUDIO, () => {
+      return this.runVirtualAudioAction('ensure', ensureVirtualAudio);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.REPAIR_VIRTUAL_AUDIO, () => {
+      return this.runVirtualAudioAction('repair', repairVirtualAudio);
+    });
+
+    ipcMain.handle(IPC_CHANNELS.REMOVE_VIRTUAL_AUDIO, () => {
+      return this.runVirtualAudioAction('remove', removeVirtualAudio);
+    });
+
+    // Microphone passthrough
+    ipcMain.handle(IPC_CHANNELS.GET_MIC_PASSTHROUGH_STATUS, () => {
+      return this.getMicPassthroughStatus();
+    });
+
+    // Instant replay buffer
+    ipcMain.handle(IPC_CHANNELS.GET_REPLAY_BUFFER_STATUS, () => {
+      return this.getReplayBufferStatus();
+    });
+
+    ipcMain.handle(IPC_CHANNELS.SAVE_REPLAY_BUFFER, () => {
+      return this.saveReplayBuffer();
+    });
   }
 
   private startRecording(): void {
     if (this.isRecording) return;
+    this.assertLibraryWritable();
 
     this.isRecording = true;
     this.recordingStartTime = Date.now();
@@ -212,32 +442,57 @@ class SoundboardApp {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     this.currentRecordingFile = path.join(this.clipsDirectory, `clip_${timestamp}.wav`);
 
-    const micInstance = mic({
-      rate: '44100',
-      channels: '1',
-      debug: false,
-      exitOnSilence: 6
-    });
+    const format = this.getRecordingFormat('microphone');
+    this.currentRecordingFormat = format;
+    const input = this.resolveMicrophoneInput(this.getSettings().inputDeviceId);
+    console.log('Recording microphone from', input.kind === 'pulse' ? `PulseAudio source ${input.source}` : `ALSA device ${input.device}`);
 
-    const micInputStream = micInstance.getAudioStream();
-    const outputFileStream = new wav.FileWriter(this.currentRecordingFile, {
-      channels: 1,
-      sampleRate: 44100,
-      bitDepth: 16
-    });
+    if (input.kind === 'pulse') {
+      this.recordingStream = this.startPulseMicrophoneCapture(input.source, format);
+    } else {
+      const micInstance = mic({
+        rate: String(format.sampleRate),
+        channels: String(format.channels),
+        // arecord pads 24-bit samples out to four bytes, so capture 32 and pack them below
+        bitwidth: String(format.bitDepth === 24 ? 32 : format.bitDepth),
+        device: input.device,
+        debug: false,
+        exitOnSilence: 6
+      });
 
-    micInputStream.pipe(outputFileStream);
-    micInputStream.on('data', () => {
-      // Data is being recorded
-    });
+      const micInputStream = micInstance.getAudioStream();
+      const outputFileStream = new wav.FileWriter(this.currentRecordingFile, {
+        channels: format.channels,
+        sampleRate: format.sampleRate,
+        bitDepth: format.bitDepth
+      });
 
-    micInputStream.on('error', (err: Error) => {
-      console.error('Error recording audio:', err);
-      this.isRecording = false;
-    });
+      (format.bitDepth === 24 ? micInputStream.pipe(createS32ToS24Transform()) : micInputStream).pipe(outputFileStream);
+      // The stream still holds 32-bit samples here when recording 24-bit
+      const levelMeter = this.createRecordingLevelMeter({ ...format, bitDepth: format.bitDepth === 24 ? 32 : format.bitDepth });
+      micInputStream.on('data', (chunk: Buffer) => levelMeter.push(chunk));
+
+      micInputStream.on('error', (err: Error) => {
+        console.error('Error recording audio:', err);
+        this.handleMicrophoneInputLost(err.message);
+      });
+
+      // Also sent when stop() kills arecord, which is not a lost input
+      let stopped = false;
+      micInputStream.on('audioProcessExitComplete', () => {
+        if (!stopped) {
+          this.handleMicrophoneInputLost(`arecord stopped reading from ${input.device}`);
+        }
+      });
 
-    micInstance.start();
-    this.recordingStream = micInstance;
+      micInstance.start();
+      this.recordingStream = {
+        stop: () => {
+          stopped = true;
+          micInstance.stop();
+        }
+      };
+    }
 
     // Notify renderer of recording state change
     this.mainWindow?.webContents.send(IPC_CHANNELS.RECORDING_STATE_CHANGED, {
@@ -267,18 +522,32 @@ class SoundboardApp {
     // Wait a bit for file to be written
     setTimeout(() => {
       if (fs.existsSync(this.currentRecordingFile)) {
+        // An input that failed right away leaves nothing but the header
+        if (fs.statSync(this.currentRecordingFile).size <= EMPTY_RECORDING_BYTES) {
+          console.log('Discarding empty recording', this.currentRecordingFile);
+          fs.unlinkSync(this.currentRecordingFile);
+          return;
+        }
+
         const clip: AudioClip = {
           id: this.generateClipId(),
           name: `Clip_${this.generateClipNumber()}`,
           filePath: this.currentRecordingFile,
           duration: Math.round(duration * 100) / 100,
-          createdAt: new Date()
+          createdAt: new Date(),
+          source: 'microphone',
+          recordedFormat: this.getRecordedFormat(this.currentRecordingFile)
         };
 
+        const autoTrim = this.applyAutoTrim(clip);
+        this.applyAutoNormalize(clip);
         this.saveClip(clip);
         
         // Notify renderer of new clip
         this.mainWindow?.webContents.send(IPC_CHANNELS.SAVE_CLIP, clip);
+        if (autoTrim) {
+          this.mainWindow?.webContents.send(IPC_CHANNELS.RECORDING_AUTO_TRIMMED, autoTrim);
+        }
       }
     }, 100);
 
@@ -292,671 +561,935 @@ class SoundboardApp {
     return null;
   }
 
+  // The selected input device as something to record from. Monitors and "default" mean the
+  // system default microphone; a device that is no longer there falls back to it with a warning.
+  private resolveMicrophoneInput(inputDeviceId: string): MicrophoneInput {
+    const defaultInput: MicrophoneInput = { kind: 'alsa', device: 'default' };
+    if (!inputDeviceId || inputDeviceId === 'default' || inputDeviceId.startsWith('monitor-')) {
+      return defaultInput;
+    }
+
+    try {
+      if (inputDeviceId.startsWith('alsa-input-')) {
+        const card = inputDeviceId.replace('alsa-input-', '');
+        if (this.getAlsaCaptureCards().some(capture => capture.card === card)) {
+          return { kind: 'alsa', device: `plughw:${card},0` };
+        }
+      } else if (listPulseEntries('sources').some(source => source.name === inputDeviceId)) {
+        return { kind: 'pulse', source: inputDeviceId };
+      }
+    } catch (error) {
+      console.error('Could not look up the recording input:', error);
+    }
+
+    console.warn(`Recording input ${inputDeviceId} not found, using the default microphone`);
+    this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_ERROR, {
+      message: 'Selected microphone not found, recording from the default microphone',
+      details: `${inputDeviceId} is not connected`
+    });
+    return defaultInput;
+  }
+
+  // Record a PulseAudio source with parecord. The handle only has stop(), so stopRecording
+  // finishes it like any mic recording instead of handing it to system audio capture.
+  private startPulseMicrophoneCapture(source: string, format: RecordingFormat): { stop: () => void } {
+    const audioProcess = this.spawnParecordCapture(source, format);
+
+    let stopped = false;
+    audioProcess.on('error', (error: Error) => {
+      console.error('Parecord spawn error:', error);
+      this.handleMicrophoneInputLost(error.message);
+    });
+
+    audioProcess.on('exit', (code: number | null, signal: string | null) => {
+      if (!stopped) {
+        this.handleMicrophoneInputLost(`parecord exited with ${signal || `code ${code}`}`);
+      }
+    });
+
+    audioProcess.stderr.on('data', (data: Buffer) => {
+      console.log('Parecord stderr:', data.toString());
+    });
+
+    return {
+      stop: () => {
+        stopped = true;
+        audioProcess.kill('SIGTERM');
+      }
+    };
+  }
+
+  // Run parecord on a source, writing its raw PCM into the recording file and the level meter
+  private spawnParecordCapture(source: string, format: RecordingFormat): any {
+    const { spawn } = require('child_process');
+    const parecordArgs = [
+      '--raw',
+      `--format=s${format.bitDepth}le`,
+      `--rate=${format.sampleRate}`,
+      `--channels=${format.channels}`,
+      `--device=${source}`
+    ];
+    console.log('Running parecord with args:', parecordArgs);
+
+    const audioProcess = spawn('parecord', parecordArgs);
+    audioProcess.stdout.pipe(new wav.FileWriter(this.currentRecordingFile, {
+      channels: format.channels,
+      sampleRate: format.sampleRate,
+      bitDepth: format.bitDepth
+    }));
+    const levelMeter = this.createRecordingLevelMeter(format);
+    audioProcess.stdout.on('data', (chunk: Buffer) => levelMeter.push(chunk));
+    return audioProcess;
+  }
+
+  // Stream the input level of the recording in progress to the renderer
+  private createRecordingLevelMeter(format: RecordingFormat): LevelMeter {
+    return new LevelMeter(format, levels => {
+      if (this.isRecording) {
+        this.mainWindow?.webContents.send(IPC_CHANNELS.RECORDING_LEVELS, levels);
+      }
+    });
+  }
+
+  // The input went away mid-recording: keep what was captured so far and say why it stopped
+  private handleMicrophoneInputLost(details: string): void {
+    if (!this.isRecording) return;
+
+    console.error('Recording input lost:', details);
+    this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_ERROR, {
+      message: 'The microphone went away, recording stopped',
+      details
+    });
+    this.stopRecording();
+  }
+
+  private getRecordingFormat(source: 'microphone' | 'system'): RecordingFormat {
+    const settings = this.getSettings();
+    const pick = (value: number, allowed: number[]) => allowed.includes(value) ? value : allowed[0];
+    return {
+      sampleRate: pick(settings.recordingSampleRate, RECORDING_SAMPLE_RATES),
+      channels: pick(source === 'system' ? settings.systemAudioChannels : settings.micRecordingChannels, RECORDING_CHANNELS),
+      bitDepth: pick(settings.recordingBitDepth, RECORDING_BIT_DEPTHS)
+    };
+  }
+
+  // The format the capture tool really wrote, or the one it was asked for if the header can't be read
+  private getRecordedFormat(filePath: string): RecordingFormat | undefined {
+    try {
+      const { format } = readWavInfo(filePath);
+      return { sampleRate: format.sampleRate, channels: format.channels, bitDepth: format.bitDepth };
+    } catch (error) {
+      console.error('Could not read the format of', filePath, error);
+      return this.currentRecordingFormat || undefined;
+    }
+  }
+
+  // With auto trim on, set trim points past the silence at both ends of a new recording.
+  // Only the markers are set, so undoing it just clears them again.
+  private applyAutoTrim(clip: AudioClip): RecordingAutoTrim | null {
+    const settings = this.getSettings();
+    if (!settings.autoTrimSilence) return null;
+
+    try {
+      const decoded = readWavSamples(clip.filePath);
+      const fileDuration = decoded.frameCount / decoded.format.sampleRate;
+      const bounds = findSoundBounds(decoded, settings.silenceThresholdDb);
+      if (!bounds) {
+        console.log(`Auto trim: ${clip.name} never rises above ${settings.silenceThresholdDb} dB, keeping it whole`);
+        return null;
+      }
+
+      // Leave a little air so soft attacks and tails survive
+      const trimStart = Math.max(0, bounds.start - SILENCE_TRIM_PADDING);
+      const trimEnd = Math.min(fileDuration, bounds.end + SILENCE_TRIM_PADDING);
+      if (trimStart >= SILENCE_TRIM_PADDING) {
+        clip.trimStart = Math.round(trimStart * 1000) / 1000;
+      }
+      if (fileDuration - trimEnd >= SILENCE_TRIM_PADDING) {
+        clip.trimEnd = Math.round(trimEnd * 1000) / 1000;
+      }
+      if (clip.trimStart === undefined && clip.trimEnd === undefined) return null;
+
+      const removedSeconds = (clip.trimStart || 0) + (fileDuration - (clip.trimEnd ?? fileDuration));
+      console.log(`Auto trim: cut ${removedSeconds.toFixed(2)}s of silence from ${clip.name}`);
+      return { clipId: clip.id, clipName: clip.name, removedSeconds: Math.round(removedSeconds * 100) / 100 };
+    } catch (error) {
+      console.error(`Auto trim of ${clip.filePath} failed, keeping the recording whole:`, error);
+      return null;
+    }
+  }
+
+  private applyAutoNormalize(clip: AudioClip): void {
+    const settings = this.getSettings();
+    if (!settings.autoNormalizeRecordings) return;
+
+    try {
+      Object.assign(clip, this.getClipNormalization(clip, settings.loudnessTargetLufs));
+    } catch (error) {
+      console.error(`Normalizing ${clip.filePath} failed, keeping its level:`, error);
+    }
+  }
+
+  // Measure the clip's file unless that was already done and work out its gain for the target
+  private getClipNormalization(clip: AudioClip, targetLufs: number): Pick<AudioClip, 'loudness' | 'normalizationGainDb'> {
+    const loudness = clip.loudness || measureLoudness(readWavSamples(clip.filePath));
+    return { loudness, normalizationGainDb: getNormalizationGainDb(loudness, targetLufs) };
+  }
+
   private generateClipId(): string {
     return `clip_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
   private generateClipNumber(): string {
-    const clips = this.getClips();
-    return (clips.length + 1).toString().padStart(2, '0');
+    return (this.clipRepository.count + 1).toString().padStart(2, '0');
   }
 
   private playClip(clipId: string): void {
     console.log(`=== PLAY_CLIP CALLED ===`);
     console.log(`Clip ID: ${clipId}`);
-    console.log(`Current playback state before:`, this.playbackState);
-    
-    // Safety check: if we're already playing something, stop it first
-    if (this.playbackState.isPlaying) {
-      console.log(`Already playing clip ${this.playbackState.currentClipId}, stopping it first`);
-      this.stopPlayback();
-    }
-    
-    // Stop current playback (in case there are any lingering processes)
-    this.stopPlayback();
+    console.log(`Active voices before:`, this.voices.size);
 
-    const clips = this.getClips();
-    const clip = clips.find(c => c.id === clipId);
+    const clip = this.clipRepository.get(clipId);
     if (!clip || !fs.existsSync(clip.filePath)) {
       console.error('Clip not found or file missing:', clipId);
       return;
     }
 
+    // Decide what happens to the voices that are already playing. Interrupted voices
+    // fade out over the crossfade time while the new one fades in over the same time
+    const settings = this.getSettings();
+    const crossfade = settings.crossfadeMs > 0 ? settings.crossfadeMs / 1000 : undefined;
+    const playMode = clip.playMode || 'cut';
+    const interrupted = playMode === 'cut' ? this.getClipVoices()
+      : playMode === 'restart' ? this.getClipVoices(clipId)
+        : [];
+    if (interrupted.length > 0) {
+      this.stopPlayback(playMode === 'cut' ? undefined : clipId, crossfade);
+    }
+
     // Check if this is a system audio capture
-    const isSystemAudio = clip.name.startsWith('System_Audio_') || clip.filePath.includes('system_audio_');
-    console.log('Playing clip:', clip.name, 'isSystemAudio:', isSystemAudio, 'duration:', clip.duration);
-
-    // Set playback state
-    this.playbackState = {
-      isPlaying: true,
-      currentClipId: clipId,
-      progress: 0,
-      startTime: Date.now()
-    };
+    const isSystemAudio = clip.source === 'system';
+    console.log('Playing clip:', clip.name, 'isSystemAudio:', isSystemAudio, 'duration:', clip.duration, 'playMode:', playMode);
 
-    console.log(`New playback state set:`, this.playbackState);
+    // Master volume and per-clip gain apply to every output
+    const gain = settings.volume * dbToGain((clip.gainDb || 0) + (clip.normalizationGainDb || 0));
+    const outputs = this.getPlaybackOutputs(settings);
 
-    // Notify renderer of playback state change
-    this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_STATE_CHANGED, this.playbackState);
+    const voiceId = this.generateVoiceId();
 
     try {
-      console.log('Playing clip:', clip.filePath);
-      
-      // For system audio files, use a more robust playback method
-      if (isSystemAudio) {
-        this.playSystemAudioClip(clip.filePath, clipId, clip.duration);
-      } else {
-        // Try multiple playback methods to handle Discord audio conflicts
-        this.tryPlaybackMethods(clip.filePath, clipId, isSystemAudio);
-      }
-      
+      console.log('Playing clip:', clip.filePath, 'outputs:', outputs);
+      this.audioEngine.play({
+        voiceId,
+        filePath: clip.filePath,
+        gain,
+        outputs,
+        trimStart: clip.trimStart,
+        trimEnd: clip.trimEnd,
+        fadeIn: interrupted.length > 0 && crossfade ? Math.max(crossfade, clip.fadeIn || 0) : clip.fadeIn,
+        fadeOut: clip.fadeOut
+      });
     } catch (error) {
       console.error('Failed to play clip:', error);
-      this.stopPlayback();
+      this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_ERROR, {
+        message: 'Audio playback failed',
+        details: error instanceof Error ? error.message : 'Unknown playback error occurred'
+      });
+      return;
     }
+
+    this.voices.set(voiceId, {
+      voiceId,
+      clipId,
+      startTime: Date.now()
+    });
+
+    console.log(`Voice ${voiceId} started, active voices:`, this.voices.size);
+
+    // Notify renderer of playback state change
+    this.notifyPlaybackState();
   }
 
-  private playSystemAudioClip(filePath: string, clipId: string, duration: number): void {
-    console.log('Using specialized system audio playback for:', clipId);
-    
-    const settings = this.getSettings();
-    
-    // PRIORITY 1: Use virtual audio routing if enabled (for Discord integration)
+  // Route to the virtual device for Discord when enabled, together with the speaker and
+  // headphone monitors the user switched on; otherwise play to the chosen output only
+  private getPlaybackOutputs(settings: AppSettings): OutputTarget[] {
     if (settings.enableVirtualAudioRouting && settings.virtualAudioDeviceId) {
-      console.log('Using virtual audio routing for system audio (Discord integration):', settings.virtualAudioDeviceId);
-      this.tryVirtualAudioPlayback(filePath, clipId, settings.virtualAudioDeviceId, true);
-      return;
-    }
-    
-    // PRIORITY 2: Try PulseAudio with explicit device selection
-    if (settings.outputDeviceId && settings.outputDeviceId !== 'default') {
-      console.log('Using selected output device for system audio:', settings.outputDeviceId);
-      const audioProcess = this.createPulseAudioProcess(filePath, settings.outputDeviceId, clipId);
-      
-      if (audioProcess) {
-        this.currentPlayback = { audioProcess, method: 'system-audio-pulseaudio' };
-        console.log('System audio playback started successfully');
-        return;
+      if (this.isVirtualDeviceAvailable(settings.virtualAudioDeviceId)) {
+        const outputs: OutputTarget[] = [{ deviceId: settings.virtualAudioDeviceId, gain: settings.virtualOutputVolume }];
+        const addMonitor = (deviceId: string, gain: number) => {
+          // One stream per device; the first route to a device wins
+          if (!outputs.some(output => output.deviceId === deviceId)) {
+            outputs.push({ deviceId, gain });
+          }
+        };
+
+        // With the pulseaudio method the loopback modules do the monitoring instead
+        if (settings.loopbackMethod === 'pulseaudio') {
+          return outputs;
+        }
+
+        if (settings.enableSpeakerLoopback) {
+          addMonitor(this.getMonitorDeviceId('speaker', settings), settings.speakerMonitorVolume);
+        }
+        if (settings.enableHeadphoneLoopback && settings.headphoneDeviceId) {
+          addMonitor(this.getMonitorDeviceId('headphone', settings), settings.headphoneMonitorVolume);
+        }
+        return outputs;
       }
+      console.log('Invalid virtual device ID, falling back to default...');
     }
-    
-    // PRIORITY 3: Use default PulseAudio
-    console.log('Using default PulseAudio for system audio');
-    const audioProcess = this.createPulseAudioProcess(filePath, 'default', clipId);
-    
-    if (audioProcess) {
-      this.currentPlayback = { audioProcess, method: 'system-audio-pulseaudio' };
-      console.log('System audio playback started successfully');
-    } else {
-      console.error('System audio playback failed, falling back to standard methods');
-      this.tryPlaybackMethods(filePath, clipId, true);
-    }
+
+    return [{ deviceId: settings.outputDeviceId || 'default', gain: 1 }];
   }
 
-  private createPulseAudioProcess(filePath: string, deviceId: string, clipId: string): any {
-    try {
-      let command = `paplay "${filePath}"`; // Default command
-      
-      if (deviceId === 'default') {
-        command = `paplay "${filePath}"`;
-      } else if (deviceId.startsWith('pulse-')) {
-        const deviceNum = deviceId.replace('pulse-', '');
-        // Get device name from PulseAudio
-        const { execSync } = require('child_process');
-        const pulseOutput = execSync('pactl list short sinks', { stdio: 'pipe' }).toString();
-        const lines = pulseOutput.split('\n').filter((line: string) => line.trim());
-        
-        for (const line of lines) {
-          const parts = line.split('\t');
-          if (parts[0] === deviceNum && parts.length >= 2) {
-            const deviceName = parts[1];
-            command = `paplay --device="${deviceName}" "${filePath}"`;
-            break;
-          }
-        }
-      }
-      
-      console.log('Executing command:', command);
-      
-      // Use spawn instead of exec for better process control and completion detection
-      const { spawn } = require('child_process');
-      const args = command.split(' ').slice(1); // Remove the command name
-      const audioProcess = spawn('paplay', args);
-      
-      // Set up proper process monitoring
-      audioProcess.on('error', (error: Error) => {
-        console.error('System audio PulseAudio spawn error:', error);
-        this.handlePlaybackError(error, clipId, 'system-audio-pulseaudio');
-      });
-      
-      audioProcess.on('exit', (code: number, signal: string) => {
-        console.log(`System audio PulseAudio playback exited with code: ${code}, signal: ${signal}`);
-        if (code === 0) {
-          console.log('System audio PulseAudio playback finished successfully');
-          // Add a small buffer delay to ensure audio completes before stopping
-          setTimeout(() => {
-            if (this.playbackState.isPlaying && this.playbackState.currentClipId === clipId) {
-              console.log('Stopping playback from spawn exit callback for clip:', clipId);
-              this.stopPlayback();
-            }
-          }, 200); // 200ms buffer to ensure audio completion
-        } else {
-          console.error('System audio PulseAudio playback failed with code:', code);
-          this.handlePlaybackError(new Error(`PulseAudio playback failed with code ${code}`), clipId, 'system-audio-pulseaudio');
-        }
-      });
-      
-      return audioProcess;
-      
-    } catch (error) {
-      console.error('Error creating PulseAudio process:', error);
-      return null;
+  // Speakers fall back to the regular output device, headphones must be picked explicitly
+  private getMonitorDeviceId(target: LoopbackTarget, settings: AppSettings): string {
+    if (target === 'speaker') {
+      return settings.speakerDeviceId || settings.outputDeviceId || 'default';
     }
+    return settings.headphoneDeviceId;
   }
 
-  // REMOVED: setupSystemAudioCompletionDetection method - no more artificial completion detection
-  // Audio completion is now handled entirely by the process exit event
+  private setupAudioEngine(): void {
+    this.audioEngine.on('voice-ended', (voiceId: string) => {
+      console.log('Playback finished for voice:', voiceId);
+      this.stopVoice(voiceId);
+    });
 
-  private tryPlaybackMethods(filePath: string, clipId: string, isSystemAudio: boolean = false): void {
-    const settings = this.getSettings();
-    
-    // Check if virtual audio routing is enabled and a virtual device is selected
-    if (settings.enableVirtualAudioRouting && settings.virtualAudioDeviceId) {
-      console.log('Using virtual audio routing to device:', settings.virtualAudioDeviceId);
-      this.tryVirtualAudioPlayback(filePath, clipId, settings.virtualAudioDeviceId, isSystemAudio);
-      return;
-    }
+    this.audioEngine.on('voice-error', (voiceId: string, error: Error) => {
+      // The device may have gone away; look again on the next trigger
+      this.virtualDeviceAvailability.clear();
+      this.handlePlaybackError(error, voiceId, 'audio-engine');
+    });
+  }
 
-    // Use selected output device if specified
-    if (settings.outputDeviceId && settings.outputDeviceId !== 'default') {
-      console.log('Using selected output device:', settings.outputDeviceId);
-      this.tryOutputDevicePlayback(filePath, clipId, settings.outputDeviceId, isSystemAudio);
-      return;
-    }
+  private generateVoiceId(): string {
+    return `voice_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
 
-    // Method 1: Try play-sound with default settings
-    console.log('Trying play-sound method...');
-    const audioProcess = player.play(filePath, (err: Error) => {
-      if (err) {
-        console.log('play-sound failed, trying alternative method...');
-        // Method 2: Try using aplay (ALSA) directly
-        this.tryAlsaPlayback(filePath, clipId, isSystemAudio);
-      } else {
-        console.log('Playback finished for clip:', clipId, 'isSystemAudio:', isSystemAudio);
-        this.stopPlayback();
-      }
+  private isVoiceActive(voiceId: string): boolean {
+    return this.voices.has(voiceId);
+  }
+
+  private getPlaybackState(): PlaybackState {
+    const voices = Array.from(this.voices.values()).map(voice => {
+      const status = this.audioEngine.getVoiceStatus(voice.voiceId);
+      return {
+        voiceId: voice.voiceId,
+        clipId: voice.clipId,
+        progress: status && status.duration > 0 ? status.position / status.duration : 0,
+        position: status ? status.position : 0,
+        duration: status ? status.duration : 0,
+        paused: status ? status.paused : false,
+        startTime: voice.startTime
+      };
     });
 
-    // Store reference to current playback
-    this.currentPlayback = { audioProcess, method: 'play-sound' };
-    
-    // REMOVED: Progress interval system - let audio finish naturally
-    
-    // Handle play-sound errors
-    if (audioProcess && audioProcess.on) {
-      audioProcess.on('error', (error: Error) => {
-        console.error('Play-sound process error:', error);
-        this.handlePlaybackError(error, clipId, 'play-sound');
-      });
-    }
+    return {
+      isPlaying: voices.length > 0,
+      voices
+    };
   }
 
-  // REMOVED: setupPlaybackTimeout method - no more artificial timeouts
+  private notifyPlaybackState(): void {
+    const state = this.getPlaybackState();
+    this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_STATE_CHANGED, state);
+    this.updateProgressTimer();
+    this.micPassthrough.setDucked(state.voices.some(voice => !voice.paused));
+  }
 
+  // Push position updates to the renderer for as long as anything is playing
+  private updateProgressTimer(): void {
+    if (this.voices.size > 0 && !this.progressTimer) {
+      this.progressTimer = setInterval(() => {
+        this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_STATE_CHANGED, this.getPlaybackState());
+      }, PROGRESS_UPDATE_INTERVAL_MS);
+    } else if (this.voices.size === 0 && this.progressTimer) {
+      clearInterval(this.progressTimer);
+      this.progressTimer = null;
+    }
+  }
+
+  // Only modules of the virtual device chain are unloaded; other null sinks and
+  // loopbacks on the system are left alone
   private cleanupVirtualAudioDevices(): void {
+    if (!this.getSettings().manageVirtualAudioDevices) return;
+
     console.log('Cleaning up virtual audio devices...');
-    
+    const status = this.runVirtualAudioAction('remove', removeVirtualAudio);
+    if (status.error) {
+      console.error('Error cleaning up virtual audio devices:', status.error);
+    }
+  }
+
+  // Create the virtual devices before anything tries to play to or loop back from them
+  public setupVirtualAudio(): void {
+    if (!this.getSettings().manageVirtualAudioDevices) return;
+
+    const status = this.runVirtualAudioAction('ensure', ensureVirtualAudio);
+    if (status.error) {
+      console.error('Virtual audio setup failed:', status.error);
+    }
+  }
+
+  private runVirtualAudioAction(
+    name: 'inspect' | 'ensure' | 'repair' | 'remove',
+    action: (options: VirtualAudioOptions) => VirtualAudioStatus
+  ): VirtualAudioStatus {
+    console.log(`Virtual audio: ${name}`);
+    const options = this.getVirtualAudioOptions(this.getSettings());
+    let status: VirtualAudioStatus;
     try {
-      const { execSync } = require('child_process');
-      
-      // Get list of all PulseAudio modules
-      const modulesOutput = execSync('pactl list short modules', { stdio: 'pipe' }).toString();
-      const lines = modulesOutput.split('\n').filter((line: string) => line.trim());
-      
-      // Find and remove our virtual audio modules
-      const modulesToRemove: string[] = [];
-      
-      lines.forEach((line: string) => {
-        const parts = line.split('\t');
-        if (parts.length >= 2) {
-          const moduleId = parts[0];
-          const moduleName = parts[1];
-          
-          // Check if this is one of our virtual audio modules
-          if (moduleName.includes('soundboard-output') || 
-              moduleName.includes('SoundBoard-Virtual-Microphone') ||
-              moduleName.includes('module-null-sink') ||
-              moduleName.includes('module-virtual-source') ||
-              moduleName.includes('module-loopback')) {
-            modulesToRemove.push(moduleId);
-          }
-        }
-      });
-      
-      // Remove the modules
-      modulesToRemove.forEach(moduleId => {
-        try {
-          console.log(`Removing PulseAudio module ${moduleId}...`);
-          execSync(`pactl unload-module ${moduleId}`, { stdio: 'pipe' });
-        } catch (error) {
-          console.log(`Failed to remove module ${moduleId}:`, error);
-        }
-      });
-      
-      console.log(`Cleaned up ${modulesToRemove.length} virtual audio modules`);
-      
+      status = action(options);
     } catch (error) {
-      console.error('Error cleaning up virtual audio devices:', error);
+      status = {
+        ...inspectVirtualAudio(options),
+        error: error instanceof Error ? error.message : String(error)
+      };
     }
+
+    // Streams and loopbacks attached to a recreated sink are gone with the old one
+    if (name !== 'inspect') {
+      this.refreshVirtualDeviceAvailability();
+      this.audioEngine.resetOutputs();
+      this.micPassthrough.invalidate();
+      if (name !== 'remove') {
+        this.syncLoopbacks();
+      }
+    }
+
+    console.log('Virtual audio status:', status.components.map(c => `${c.id}=${c.present ? c.moduleIds.join(',') || 'external' : 'missing'}`).join(' '));
+    return status;
   }
 
-  private tryAlsaPlayback(filePath: string, clipId: string, isSystemAudio: boolean = false): void {
-    console.log('Trying ALSA playback method...');
-    
-    // Use aplay command directly to bypass Discord audio conflicts
-    const audioProcess = exec(`aplay "${filePath}"`, (error: Error, stdout: string, stderr: string) => {
-      if (error) {
-        console.log('ALSA playback failed, trying PulseAudio method...');
-        // Method 3: Try using paplay (PulseAudio)
-        this.tryPulseAudioPlayback(filePath, clipId, isSystemAudio);
+  // The microphone mixed into the virtual mic is the selected input device, or the system
+  // default when the input is a system audio monitor, an ALSA card or left on default
+  private getVirtualAudioOptions(settings: AppSettings): VirtualAudioOptions {
+    let micMixSource: string | null = null;
+    if (settings.mixMicrophoneIntoVirtualMic) {
+      const inputDeviceId = settings.inputDeviceId;
+      if (inputDeviceId && inputDeviceId !== 'default' && !inputDeviceId.startsWith('monitor-') && !inputDeviceId.startsWith('alsa-input-')) {
+        micMixSource = inputDeviceId;
       } else {
-        console.log('ALSA playback finished for clip:', clipId, 'isSystemAudio:', isSystemAudio);
-        this.stopPlayback();
+        try {
+          micMixSource = getDefaultSourceName();
+        } catch (error) {
+          console.error('Could not look up the default microphone:', error);
+        }
       }
+    }
+
+    return { micName: settings.virtualMicName, micMixSource };
+  }
+
+
+  // Stop a single voice
+  private stopVoice(voiceId: string): void {
+    if (!this.voices.has(voiceId)) return;
+
+    this.voices.delete(voiceId);
+    this.audioEngine.stop(voiceId);
+
+    console.log(`Voice ${voiceId} stopped, active voices:`, this.voices.size);
+    this.notifyPlaybackState();
+  }
+
+  // Stop every voice, or only the voices of one clip when clipId is given. Each voice
+  // fades out over fadeSeconds, or else its clip's fade-out (at least a short declick)
+  private stopPlayback(clipId?: string, fadeSeconds?: number): void {
+    console.log('Stopping playback', clipId ? `for clip ${clipId}` : 'for all clips', 'active voices:', this.voices.size);
+
+    const voicesToStop = Array.from(this.voices.values())
+      .filter(voice => !clipId || voice.clipId === clipId);
+
+    voicesToStop.forEach(voice => {
+      const clipFade = this.clipRepository.get(voice.clipId)?.fadeOut || 0;
+      this.voices.delete(voice.voiceId);
+      this.audioEngine.stop(voice.voiceId, fadeSeconds ?? Math.max(STOP_FADE_SECONDS, clipFade));
     });
 
-    // Update current playback reference
-    this.currentPlayback = { audioProcess, method: 'alsa' };
-    
-    // REMOVED: Timeout system - let audio finish naturally
-    
-    // Handle ALSA process errors
-    if (audioProcess && audioProcess.on) {
-      audioProcess.on('error', (error: Error) => {
-        console.error('ALSA process error:', error);
-        this.handlePlaybackError(error, clipId, 'alsa');
-      });
+    console.log('Playback stopped, active voices:', this.voices.size);
+
+    // Notify renderer of playback state change
+    this.notifyPlaybackState();
+  }
+
+  private getClipVoices(clipId?: string): ActiveVoice[] {
+    return Array.from(this.voices.values()).filter(voice => !clipId || voice.clipId === clipId);
+  }
+
+  private pausePlayback(clipId?: string): void {
+    console.log('Pausing playback', clipId ? `for clip ${clipId}` : 'for all clips');
+    this.getClipVoices(clipId).forEach(voice => this.audioEngine.pause(voice.voiceId));
+    this.notifyPlaybackState();
+  }
+
+  private resumePlayback(clipId?: string): void {
+    console.log('Resuming playback', clipId ? `for clip ${clipId}` : 'for all clips');
+    this.getClipVoices(clipId).forEach(voice => this.audioEngine.resume(voice.voiceId));
+    this.notifyPlaybackState();
+  }
+
+  // Position is in seconds from the start of the clip
+  private seekPlayback(clipId: string, position: number): void {
+    console.log(`Seeking clip ${clipId} to ${position.toFixed(2)}s`);
+    this.getClipVoices(clipId).forEach(voice => this.audioEngine.seek(voice.voiceId, position));
+    this.notifyPlaybackState();
+  }
+
+  private getClips(): AudioClip[] {
+    return this.clipRepository.getAll();
+  }
+
+  private saveClip(clip: AudioClip): AudioClip {
+    return this.clipRepository.save(clip);
+  }
+
+  private deleteClip(clipId: string): boolean {
+    const clip = this.clipRepository.get(clipId);
+    if (!clip) return false;
+    this.assertLibraryWritable();
+
+    // Remove from filesystem
+    if (fs.existsSync(clip.filePath)) {
+      fs.unlinkSync(clip.filePath);
+    }
+
+    // Remove hotkey if assigned
+    if (clip.hotkey) {
+      this.unregisterHotkey(clipId);
+    }
+
+    if (this.libraryScan) {
+      this.libraryScan.missingClipIds = this.libraryScan.missingClipIds.filter(id => id !== clipId);
     }
+
+    // Remove from storage
+    return this.clipRepository.delete(clipId);
   }
 
-  private tryPulseAudioPlayback(filePath: string, clipId: string, isSystemAudio: boolean = false): void {
-    console.log('Trying PulseAudio playback method...');
-    
-    // Use paplay command to play through PulseAudio
-    const audioProcess = exec(`paplay "${filePath}"`, (error: Error, stdout: string, stderr: string) => {
-      if (error) {
-        console.log('All playback methods failed');
-        this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_ERROR, {
-          message: 'All audio playback methods failed. Try closing Discord or changing audio settings.',
-          details: error.message
-        });
-        this.stopPlayback();
-      } else {
-        console.log('PulseAudio playback finished for clip:', clipId, 'isSystemAudio:', isSystemAudio);
-        this.stopPlayback();
-      }
+  private renameClip(id: string, name: string): AudioClip | null {
+    return this.clipRepository.update(id, { name });
+  }
+
+  // Bring the library in line with the clips directory: import unknown WAVs, follow
+  // clips that moved between subfolders and flag the ones whose file is gone.
+  // In live mode clips whose file was deleted since the last scan are removed later,
+  // if the file doesn't come back in the meantime.
+  private scanLibrary(live = false): LibraryScanResult {
+    // A recording in progress is not a clip yet
+    const ignore = this.isRecording && this.currentRecordingFile ? [this.currentRecordingFile] : [];
+    const scan = scanLibrary(this.clipRepository.getAll(), this.clipsDirectory, ignore);
+
+    const previouslyMissing = new Set(this.libraryScan ? this.libraryScan.missingClipIds : []);
+    let vanished = live
+      ? scan.missing.filter(clip => !previouslyMissing.has(clip.id) && this.isInClipsDirectory(clip.filePath))
+      : [];
+
+    // A rename inside one folder looks like one clip vanishing and one file appearing
+    if (vanished.length === 1 && scan.newFiles.length === 1) {
+      scan.relinks.push({ clip: vanished[0], file: scan.newFiles[0] });
+      scan.missing = scan.missing.filter(clip => clip.id !== vanished[0].id);
+      scan.newFiles = [];
+      vanished = [];
+    }
+
+    // Missing until the grace period ends; the clip and its hotkey survive a file being replaced
+    if (vanished.length > 0) {
+      vanished.forEach(clip => this.vanishedClipIds.add(clip.id));
+      this.scheduleVanishedClipRemoval();
+    }
+
+    scan.relinks.forEach(({ clip, file }) => {
+      this.clipRepository.update(clip.id, { filePath: file.filePath, duration: file.duration });
+      console.log(`Relinked clip ${clip.name} to ${file.filePath}`);
     });
 
-    // Update current playback reference
-    this.currentPlayback = { audioProcess, method: 'pulseaudio' };
-    
-    // REMOVED: Timeout system - let audio finish naturally
-    
-    // Handle PulseAudio process errors
-    if (audioProcess && audioProcess.on) {
-      audioProcess.on('error', (error: Error) => {
-        console.error('PulseAudio process error:', error);
-        this.handlePlaybackError(error, clipId, 'pulseaudio');
-      });
+    const imported = scan.newFiles.map(file => this.clipRepository.save({
+      id: this.generateClipId(),
+      name: path.basename(file.filePath, path.extname(file.filePath)),
+      filePath: file.filePath,
+      duration: file.duration,
+      createdAt: file.modifiedAt,
+      source: 'import'
+    }));
+
+    this.libraryScan = {
+      missingClipIds: scan.missing.map(clip => clip.id),
+      importedClipIds: imported.map(clip => clip.id),
+      relinkedClipIds: scan.relinks.map(({ clip }) => clip.id),
+      removedClipIds: [],
+      unsupportedFiles: scan.unsupportedFiles,
+      scannedAt: Date.now()
+    };
+
+    console.log(`Library scan: ${imported.length} imported, ${scan.relinks.length} relinked, ${vanished.length} vanished, ${this.libraryScan.missingClipIds.length} missing, ${scan.unsupportedFiles.length} unsupported`);
+    return this.libraryScan;
+  }
+
+  private isInClipsDirectory(filePath: string): boolean {
+    const relative = path.relative(path.resolve(this.clipsDirectory), path.resolve(filePath));
+    return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+
+  // Something changed in the watched clips directory; sync the library and tell the renderer
+  private handleLibraryChange(): void {
+    // The file being recorded keeps changing; the scan after the recording is saved picks it up
+    if (this.isRecording) return;
+
+    const previousMissing = this.libraryScan ? this.libraryScan.missingClipIds.join(',') : '';
+    const scan = this.scanLibrary(true);
+    const changed = scan.importedClipIds.length > 0 || scan.relinkedClipIds.length > 0 ||
+      scan.removedClipIds.length > 0 || scan.missingClipIds.join(',') !== previousMissing;
+    if (!changed) return;
+
+    this.mainWindow?.webContents.send(IPC_CHANNELS.LIBRARY_CHANGED, {
+      clips: this.getClips(),
+      scan
+    });
+  }
+
+  private scheduleVanishedClipRemoval(): void {
+    if (this.vanishedClipTimer) {
+      clearTimeout(this.vanishedClipTimer);
     }
+    this.vanishedClipTimer = setTimeout(() => {
+      this.vanishedClipTimer = null;
+      this.removeVanishedClips();
+    }, VANISHED_CLIP_GRACE_MS);
   }
 
-  private tryVirtualAudioPlayback(filePath: string, clipId: string, virtualDeviceId: string, isSystemAudio: boolean = false): void {
-    console.log('Trying virtual audio playback method...');
-    console.log('Virtual device ID:', virtualDeviceId);
-    
-    // Validate that the virtual device actually exists
-    if (!this.isValidVirtualDevice(virtualDeviceId)) {
-      console.log('Invalid virtual device ID, falling back to default...');
-      this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
+  // The grace period is over: remove the clips whose file is still gone
+  private removeVanishedClips(): void {
+    // Clip files are in flux until the move is done
+    if (this.isMovingLibrary) {
+      this.scheduleVanishedClipRemoval();
       return;
     }
-    
-    try {
-      let audioProcess: any;
-      
-      if (virtualDeviceId.startsWith('pulse-')) {
-        // PulseAudio virtual device - extract the actual device name
-        const deviceId = virtualDeviceId.replace('pulse-', '');
-        console.log('Using PulseAudio device ID:', deviceId);
-        
-        // Get the actual device name from pactl
-        try {
-          const { execSync } = require('child_process');
-          const pulseOutput = execSync('pactl list short sinks', { stdio: 'pipe' }).toString();
-          const lines = pulseOutput.split('\n').filter((line: string) => line.trim());
-          
-          for (const line of lines) {
-            const parts = line.split('\t');
-            if (parts[0] === deviceId && parts.length >= 2) {
-              const deviceName = parts[1];
-              console.log('Found device name:', deviceName);
-              
-              audioProcess = exec(`paplay --device="${deviceName}" "${filePath}"`, (error: Error, stdout: string, stderr: string) => {
-                if (error) {
-                  console.log('Virtual PulseAudio playback failed, falling back to default...');
-                  this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-                } else {
-                  console.log('Virtual PulseAudio playback finished for clip:', clipId, 'isSystemAudio:', isSystemAudio);
-                  this.stopPlayback();
-                }
-              });
-              
-              // Handle virtual PulseAudio process errors
-              if (audioProcess && audioProcess.on) {
-                audioProcess.on('error', (error: Error) => {
-                  console.error('Virtual PulseAudio process error:', error);
-                  this.handlePlaybackError(error, clipId, 'virtual-pulseaudio');
-                });
-              }
-              break;
-            }
-          }
-          
-          if (!audioProcess) {
-            console.log('Device not found, falling back to default...');
-            this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-            return;
-          }
-        } catch (error) {
-          console.log('Could not get device name, falling back to default...');
-          this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-          return;
-        }
-      } else if (virtualDeviceId.startsWith('alsa-')) {
-        // ALSA virtual device
-        const cardId = virtualDeviceId.replace('alsa-', '');
-        audioProcess = exec(`aplay -D hw:${cardId},0 "${filePath}"`, (error: Error, stdout: string, stderr: string) => {
-          if (error) {
-            console.log('Virtual ALSA playback failed, falling back to default...');
-            this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-          } else {
-            console.log('Virtual ALSA playback finished for clip:', clipId, 'isSystemAudio:', isSystemAudio);
-            this.stopPlayback();
-          }
-        });
-        
-        // Handle virtual ALSA process errors
-        if (audioProcess && audioProcess.on) {
-          audioProcess.on('error', (error: Error) => {
-            console.error('Virtual ALSA process error:', error);
-            this.handlePlaybackError(error, clipId, 'virtual-alsa');
-          });
-        }
-      } else if (virtualDeviceId === 'soundboard-output') {
-        // SoundBoard virtual output device
-        console.log('Using SoundBoard virtual output device directly');
-        
-        // Use spawn instead of exec for better process control
-        const { spawn } = require('child_process');
-        audioProcess = spawn('paplay', ['--device=soundboard-output', filePath]);
-        
-        // Set up proper process monitoring for virtual audio
-        audioProcess.on('error', (error: Error) => {
-          console.error('SoundBoard virtual output process error:', error);
-          this.handlePlaybackError(error, clipId, 'soundboard-output');
-        });
-        
-        audioProcess.on('exit', (code: number, signal: string) => {
-          console.log(`SoundBoard virtual output playback exited with code: ${code}, signal: ${signal}`);
-          if (code === 0) {
-            console.log('SoundBoard virtual output playback finished for clip:', clipId, 'isSystemAudio:', isSystemAudio);
-            // Add a small buffer delay to ensure audio completes before stopping
-            setTimeout(() => {
-              this.stopPlayback();
-            }, 200); // 200ms buffer to ensure audio completion
-          } else {
-            console.log('SoundBoard virtual output playback failed, falling back to default...');
-            this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-          }
-        });
-        
-        // For system audio clips, set up completion detection
-        if (isSystemAudio) {
-          // System audio completion detection handled by process exit event
-        }
-      } else if (virtualDeviceId === 'vb-cable') {
-        // VB-Cable virtual device (Windows-style, but we'll try on Linux)
-        audioProcess = exec(`paplay --device=VB-Audio "${filePath}"`, (error: Error, stdout: string, stderr: string) => {
-          if (error) {
-            console.log('VB-Cable playback failed, falling back to default...');
-            this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-          } else {
-            console.log('VB-Cable playback finished for clip:', clipId, 'isSystemAudio:', isSystemAudio);
-            this.stopPlayback();
-          }
-        });
-        
-        // Handle VB-Cable process errors
-        if (audioProcess && audioProcess.on) {
-          audioProcess.on('error', (error: Error) => {
-            console.error('VB-Cable process error:', error);
-            this.handlePlaybackError(error, clipId, 'vb-cable');
-          });
-        }
-      } else {
-        // Unknown virtual device type, fall back to default
-        console.log('Unknown virtual device type, falling back to default...');
-        this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-        return;
-      }
 
-      // Update current playback reference
-      if (audioProcess) {
-        this.currentPlayback = { audioProcess, method: 'virtual' };
-        
-            // REMOVED: Timeout system - let audio finish naturally
-      }
-    } catch (error) {
-      console.log('Virtual audio playback failed, falling back to default...');
-      this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-    }
-  }
+    const removed = Array.from(this.vanishedClipIds, id => this.clipRepository.get(id))
+      .filter((clip): clip is AudioClip => !!clip && !fs.existsSync(clip.filePath) && this.isInClipsDirectory(clip.filePath));
+    this.vanishedClipIds.clear();
+    if (removed.length === 0) return;
 
-  private tryOutputDevicePlayback(filePath: string, clipId: string, outputDeviceId: string, isSystemAudio: boolean = false): void {
-    console.log('Trying output device playback method...');
-    console.log('Output device ID:', outputDeviceId);
-    
-    try {
-      let audioProcess: any;
-      
-      if (outputDeviceId.startsWith('pulse-')) {
-        // PulseAudio output device
-        const deviceId = outputDeviceId.replace('pulse-', '');
-        console.log('Using PulseAudio output device ID:', deviceId);
-        
-        // Get the actual device name from pactl
-        try {
-          const { execSync } = require('child_process');
-          const pulseOutput = execSync('pactl list short sinks', { stdio: 'pipe' }).toString();
-          const lines = pulseOutput.split('\n').filter((line: string) => line.trim());
-          
-          for (const line of lines) {
-            const parts = line.split('\t');
-            if (parts[0] === deviceId && parts.length >= 2) {
-              const deviceName = parts[1];
-              console.log('Found device name:', deviceName);
-              
-              audioProcess = exec(`paplay --device="${deviceName}" "${filePath}"`, (error: Error, stdout: string, stderr: string) => {
-                if (error) {
-                  console.log('Output device PulseAudio playback failed, falling back to default...');
-                  this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-                } else {
-                  console.log('Output device PulseAudio playback finished for clip:', clipId, 'isSystemAudio:', isSystemAudio);
-                  this.stopPlayback();
-                }
-              });
-              
-              // Handle output device PulseAudio process errors
-              if (audioProcess && audioProcess.on) {
-                audioProcess.on('error', (error: Error) => {
-                  console.error('Output device PulseAudio process error:', error);
-                  this.handlePlaybackError(error, clipId, 'output-pulseaudio');
-                });
-              }
-              break;
-            }
-          }
-          
-          if (!audioProcess) {
-            console.log('Device not found, falling back to default...');
-            this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-            return;
-          }
-        } catch (error) {
-          console.log('Could not get device name, falling back to default...');
-          this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-          return;
-        }
-      } else if (outputDeviceId.startsWith('alsa-')) {
-        // ALSA output device
-        const cardId = outputDeviceId.replace('alsa-', '');
-        audioProcess = exec(`aplay -D hw:${cardId},0 "${filePath}"`, (error: Error, stdout: string, stderr: string) => {
-          if (error) {
-            console.log('Output device ALSA playback failed, falling back to default...');
-            this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-          } else {
-            console.log('Output device ALSA playback finished for clip:', clipId, 'isSystemAudio:', isSystemAudio);
-            this.stopPlayback();
-          }
-        });
-        
-        // Handle output device ALSA process errors
-        if (audioProcess && audioProcess.on) {
-          audioProcess.on('error', (error: Error) => {
-            console.error('Output device ALSA process error:', error);
-            this.handlePlaybackError(error, clipId, 'output-alsa');
-          });
-        }
-      } else {
-        // Unknown output device type, fall back to default
-        console.log('Unknown output device type, falling back to default...');
-        this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
-        return;
-      }
+    removed.forEach(clip => {
+      this.deleteClip(clip.id);
+      console.log(`Removed clip ${clip.name}, its file was deleted`);
+    });
+
+    const removedIds = new Set(removed.map(clip => clip.id));
+    if (this.libraryScan) {
+      this.libraryScan = {
+        ...this.libraryScan,
+        missingClipIds: this.libraryScan.missingClipIds.filter(id => !removedIds.has(id)),
+        removedClipIds: Array.from(removedIds)
+      };
+    }
+    this.mainWindow?.webContents.send(IPC_CHANNELS.LIBRARY_CHANGED, {
+      clips: this.getClips(),
+      scan: this.libraryScan
+    });
+  }
 
-      // Update current playback reference
-      if (audioProcess) {
-        this.currentPlayback = { audioProcess, method: 'output-device' };
-        
-            // REMOVED: Timeout system - let audio finish naturally
-      }
-    } catch (error) {
-      console.log('Output device playback failed, falling back to default...');
-      this.tryPlaybackMethods(filePath, clipId, isSystemAudio);
+  // Point a clip whose file went missing at a file the user picks
+  private async relinkClip(clipId: string): Promise<AudioClip | null> {
+    const clip = this.clipRepository.get(clipId);
+    if (!clip) return null;
+
+    const options = {
+      title: `Locate "${clip.name}"`,
+      defaultPath: this.clipsDirectory,
+      properties: ['openFile' as const],
+      filters: [{ name: 'WAV audio', extensions: ['wav'] }]
+    };
+    const result = this.mainWindow
+      ? await dialog.showOpenDialog(this.mainWindow, options)
+      : await dialog.showOpenDialog(options);
+    if (result.canceled || result.filePaths.length === 0) return null;
+    this.assertLibraryWritable();
+
+    const filePath = result.filePaths[0];
+    // Throws for files the player can't read, which reaches the renderer as a rejection
+    const duration = Math.round(readWavInfo(filePath).duration * 100) / 100;
+    const updated = this.clipRepository.update(clipId, { filePath, duration, loudness: undefined });
+
+    if (this.libraryScan) {
+      this.libraryScan.missingClipIds = this.libraryScan.missingClipIds.filter(id => id !== clipId);
     }
+    return updated;
   }
 
-  private stopPlayback(): void {
-    console.log('Stopping playback, current state:', this.playbackState);
-    
-    // Stop current playback if active
-    if (this.currentPlayback) {
+  private getClipWaveform(clipId: string, bucketCount: number): ClipWaveform | null {
+    const clip = this.clipRepository.get(clipId);
+    if (!clip) return null;
+
+    const decoded = readWavSamples(clip.filePath);
+    return {
+      duration: decoded.frameCount / decoded.format.sampleRate,
+      peaks: getWaveformPeaks(decoded, Math.max(1, Math.min(4000, Math.floor(bucketCount))))
+    };
+  }
+
+  // Bring every clip to the loudness target; clips that can't be read keep their gain
+  private async normalizeLibrary(targetLufs: number): Promise<LibraryNormalizeResult> {
+    this.assertLibraryWritable();
+    const updates: { id: string; changes: Partial<AudioClip> }[] = [];
+    const failures: LibraryNormalizeResult['failures'] = [];
+
+    for (const clip of this.clipRepository.getAll()) {
       try {
-        // Progress interval cleanup removed - no more artificial progress systems
-        
-        // Legacy completion timeout cleanup removed - no more artificial timeouts
-        
-        if (this.currentPlayback.audioProcess) {
-          // Kill the audio process if it's still running
-          if (this.currentPlayback.audioProcess.kill) {
-            console.log(`Killing ${this.currentPlayback.method} audio process`);
-            this.currentPlayback.audioProcess.kill();
-          }
-          
-          // For exec processes, also try to kill any child processes
-          if (this.currentPlayback.audioProcess.pid) {
-            try {
-              const { execSync } = require('child_process');
-              execSync(`pkill -P ${this.currentPlayback.audioProcess.pid}`, { stdio: 'pipe' });
-            } catch (error) {
-              // Ignore errors when killing child processes
-            }
-          }
-        }
+        updates.push({ id: clip.id, changes: this.getClipNormalization(clip, targetLufs) });
       } catch (error) {
-        console.error('Error stopping playback:', error);
+        failures.push({ clipName: clip.name, error: error instanceof Error ? error.message : String(error) });
       }
-      this.currentPlayback = null;
+      // Measuring is synchronous; let playback and IPC run between files
+      await new Promise(resolve => setImmediate(resolve));
     }
 
-    // Reset playback state
-    this.playbackState = {
-      isPlaying: false,
-      currentClipId: undefined,
-      progress: 0,
-      startTime: 0
+    this.clipRepository.updateMany(updates);
+    console.log(`Normalized ${updates.length} clips to ${targetLufs} LUFS, ${failures.length} failed`);
+    return {
+      clips: updates.map(({ id }) => this.clipRepository.get(id)).filter((clip): clip is AudioClip => !!clip),
+      failures
     };
+  }
 
-    console.log('Playback stopped, new state:', this.playbackState);
+  // Make the trim permanent: cut the file down to the trimmed range and clear the markers
+  private bakeClipTrim(clipId: string): AudioClip | null {
+    const clip = this.clipRepository.get(clipId);
+    if (!clip) return null;
+    if (clip.trimStart === undefined && clip.trimEnd === undefined) return clip;
+    this.assertLibraryWritable();
+
+    const info = trimWavFile(clip.filePath, clip.trimStart || 0, clip.trimEnd ?? Infinity);
+    console.log(`Baked trim of ${clip.name} into ${clip.filePath}, now ${info.duration.toFixed(2)}s`);
+    const changes: Partial<AudioClip> = {
+      trimStart: undefined,
+      trimEnd: undefined,
+      duration: Math.round(info.duration * 100) / 100,
+      loudness: undefined,
+      normalizationGainDb: undefined
+    };
 
-    // Notify renderer of playback state change
-    this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_STATE_CHANGED, this.playbackState);
+    // The gain was worked out for the untrimmed audio; measure a normalized clip again
+    if (clip.normalizationGainDb !== undefined) {
+      try {
+        Object.assign(changes, this.getClipNormalization({ ...clip, loudness: undefined }, this.getSettings().loudnessTargetLufs));
+      } catch (error) {
+        console.error(`Normalizing ${clip.filePath} failed, clearing its gain:`, error);
+      }
+    }
+    return this.clipRepository.update(clipId, changes);
   }
 
-  private getClips(): AudioClip[] {
-    const clips = this.store.get('clips', []) as any[];
-    // Convert createdAt strings back to Date objects
-    return clips.map(clip => ({
-      ...clip,
-      createdAt: clip.createdAt ? new Date(clip.createdAt) : new Date()
-    }));
-  }
+  // Add audio files from anywhere as clips; without paths the user picks them in a dialog
+  private async importClips(filePaths?: string[]): Promise<ClipImportResult> {
+    if (!filePaths) {
+      const options = {
+        title: 'Import audio files',
+        properties: ['openFile' as const, 'multiSelections' as const],
+        filters: [{ name: 'Audio files', extensions: IMPORTABLE_EXTENSIONS }]
+      };
+      const selection = this.mainWindow
+        ? await dialog.showOpenDialog(this.mainWindow, options)
+        : await dialog.showOpenDialog(options);
+      if (selection.canceled) return { clips: [], failures: [] };
+      filePaths = selection.filePaths;
+    }
+    this.assertLibraryWritable();
 
-  private saveClip(clip: AudioClip): AudioClip {
-    const clips = this.getClips();
-    const existingIndex = clips.findIndex(c => c.id === clip.id);
-    
-    if (existingIndex >= 0) {
-      clips[existingIndex] = clip;
-    } else {
-      clips.push(clip);
+    const result: ClipImportResult = { clips: [], failures: [] };
+    for (const filePath of filePaths) {
+      try {
+        const imported = await importAudioFile(filePath, this.clipsDirectory);
+        result.clips.push(this.saveClip({
+          id: this.generateClipId(),
+          name: path.basename(filePath, path.extname(filePath)),
+          filePath: imported.filePath,
+          duration: imported.duration,
+          createdAt: new Date(),
+          source: 'import'
+        }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to import ${filePath}:`, message);
+        result.failures.push({ filePath, error: message });
+      }
     }
 
-    this.store.set('clips', clips);
-    return clip;
+    console.log(`Imported ${result.clips.length} of ${filePaths.length} audio files`);
+    return result;
   }
 
-  private deleteClip(clipId: string): boolean {
-    const clips = this.getClips();
-    const clip = clips.find(c => c.id === clipId);
-    if (!clip) return false;
+  // Pack the given clips, or the whole library, into a file the user picks
+  private async exportSoundPack(clipIds?: string[]): Promise<SoundPackExportResult | null> {
+    const clips = clipIds ? this.getClips().filter(clip => clipIds.includes(clip.id)) : this.getClips();
+    if (clips.length === 0) {
+      throw new Error('There are no clips to export');
+    }
 
-    // Remove from filesystem
-    if (fs.existsSync(clip.filePath)) {
-      fs.unlinkSync(clip.filePath);
+    const options = {
+      title: 'Export sound pack',
+      defaultPath: path.join(app.getPath('documents'), `${clipIds ? 'SoundBoard clips' : 'SoundBoard'}.${SOUND_PACK_EXTENSION}`),
+      filters: [{ name: 'SoundBoard pack', extensions: [SOUND_PACK_EXTENSION] }]
+    };
+    const selection = this.mainWindow
+      ? await dialog.showSaveDialog(this.mainWindow, options)
+      : await dialog.showSaveDialog(options);
+    if (selection.canceled || !selection.filePath) return null;
+
+    const { exported, skipped } = writeSoundPack(clips, selection.filePath);
+    console.log(`Exported ${exported.length} clips to ${selection.filePath}${skipped.length ? `, ${skipped.length} missing files left out` : ''}`);
+    return {
+      filePath: selection.filePath,
+      exportedClipIds: exported.map(clip => clip.id),
+      skippedClipIds: skipped.map(clip => clip.id)
+    };
+  }
+
+  // Unpack a pack into its own folder of the clips directory as new clips. Hotkeys that
+  // are already taken here are dropped rather than stolen from the existing clips.
+  private async importSoundPack(packPath?: string): Promise<SoundPackImportResult | null> {
+    if (!packPath) {
+      const options = {
+        title: 'Import sound pack',
+        properties: ['openFile' as const],
+        filters: [{ name: 'SoundBoard pack', extensions: [SOUND_PACK_EXTENSION] }]
+      };
+      const selection = this.mainWindow
+        ? await dialog.showOpenDialog(this.mainWindow, options)
+        : await dialog.showOpenDialog(options);
+      if (selection.canceled || selection.filePaths.length === 0) return null;
+      packPath = selection.filePaths[0];
     }
+    this.assertLibraryWritable();
 
-    // Remove hotkey if assigned
-    if (clip.hotkey) {
-      this.unregisterHotkey(clipId);
+    const { manifest, reader } = openSoundPack(packPath);
+    const result: SoundPackImportResult = { clips: [], hotkeyConflicts: [], failures: [] };
+    const packName = toSafeFileName(path.basename(packPath, path.extname(packPath)));
+    const targetDirectory = getFreeFilePath(this.clipsDirectory, packName, '');
+    const pushToTalkHotkey = this.getSettings().micPushToTalkHotkey;
+
+    try {
+      fs.mkdirSync(targetDirectory, { recursive: true });
+
+      manifest.clips.forEach((packClip, index) => {
+        let clipName = `Clip ${index + 1}`;
+        try {
+          clipName = typeof packClip.name === 'string' ? packClip.name : path.basename(packClip.file, '.wav');
+          const data = reader.read(packClip.file);
+          const { duration } = parseWavHeader(data);
+          const filePath = getFreeFilePath(targetDirectory, toSafeFileName(clipName));
+          fs.writeFileSync(filePath, data);
+
+          const createdAt = new Date(packClip.createdAt);
+          const { hotkey, ...settings } = getPackClipSettings(packClip, duration);
+          const clip = this.saveClip({
+            id: this.generateClipId(),
+            name: clipName,
+            filePath,
+            duration: Math.round(duration * 100) / 100,
+            createdAt: isNaN(createdAt.getTime()) ? new Date() : createdAt,
+            ...settings
+          });
+
+          if (hotkey) {
+            const isTaken = this.hotkeyMap.has(hotkey) || hotkey === pushToTalkHotkey || hotkey === this.replayBufferHotkey;
+            const registered = !isTaken && this.registerHotkey({
+              clipId: clip.id,
+              key: hotkey.split('+').pop() || '',
+              modifiers: hotkey.split('+').slice(0, -1)
+            });
+            if (!registered) {
+              result.hotkeyConflicts.push({ clipName, hotkey });
+            }
+          }
+
+          result.clips.push(this.clipRepository.get(clip.id) || clip);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`Failed to import ${clipName} from ${packPath}:`, message);
+          result.failures.push({ clipName, error: message });
+        }
+      });
+    } finally {
+      reader.close();
+      if (result.clips.length === 0) {
+        fs.rmSync(targetDirectory, { recursive: true, force: true });
+      }
     }
 
-    // Remove from storage
-    const updatedClips = clips.filter(c => c.id !== clipId);
-    this.store.set('clips', updatedClips);
+    console.log(`Imported ${result.clips.length} of ${manifest.clips.length} clips from ${packPath} into ${targetDirectory}`);
+    return result;
+  }
 
-    return true;
+  private async chooseClipsDirectory(): Promise<string | null> {
+    const options = {
+      title: 'Choose a folder for your clips',
+      defaultPath: this.clipsDirectory,
+      properties: ['openDirectory' as const, 'createDirectory' as const]
+    };
+    const result = this.mainWindow
+      ? await dialog.showOpenDialog(this.mainWindow, options)
+      : await dialog.showOpenDialog(options);
+    return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
   }
 
-  private renameClip(id: string, name: string): AudioClip | null {
-    const clips = this.getClips();
-    const clipIndex = clips.findIndex(c => c.id === id);
-    if (clipIndex === -1) return null;
+  // Copy every clip file to a new clips directory, verify the copies, then switch the
+  // library over. Until the switch any failure leaves the old library exactly as it was.
+  private async moveLibrary(directory: string, mode: LibraryMoveMode): Promise<LibraryMoveResult> {
+    if (this.isRecording) {
+      throw new Error('Stop recording before moving the clips');
+    }
+    if (this.isMovingLibrary) {
+      throw new Error('The clips are already being moved');
+    }
+
+    const fromDirectory = this.clipsDirectory;
+    const plan = planLibraryMove(this.clipRepository.getAll(), fromDirectory, directory);
+    const reportProgress = (progress: LibraryMoveProgress) => {
+      this.mainWindow?.webContents.send(IPC_CHANNELS.LIBRARY_MOVE_PROGRESS, progress);
+    };
+
+    // The watcher would take the originals disappearing for deleted clips
+    this.isMovingLibrary = true;
+    this.libraryWatcher.stop();
 
-    clips[clipIndex].name = name;
-    this.store.set('clips', clips);
-    return clips[clipIndex];
+    try {
+      console.log(`${mode === 'move' ? 'Moving' : 'Copying'} ${plan.files.length} clip files from ${fromDirectory} to ${directory}`);
+      const copy = await copyLibraryFiles(plan, reportProgress);
+
+      try {
+        this.clipRepository.updateMany(plan.files.flatMap(file =>
+          file.clipIds.map(id => ({ id, changes: { filePath: file.to } }))
+        ));
+      } catch (error) {
+        await discardCopies(copy, reportProgress);
+        throw error;
+      }
+
+      this.setClipsDirectory(directory);
+      const leftoverFiles = mode === 'move' ? await removeOriginals(plan, fromDirectory, reportProgress) : [];
+
+      this.scanLibrary();
+      console.log(`Clips are now in ${directory}${leftoverFiles.length ? `, ${leftoverFiles.length} originals could not be removed` : ''}`);
+      return {
+        directory,
+        movedClipIds: plan.files.flatMap(file => file.clipIds),
+        skippedClipIds: plan.skippedClipIds,
+        leftoverFiles
+      };
+    } finally {
+      this.isMovingLibrary = false;
+      this.libraryWatcher.start(this.clipsDirectory);
+    }
+  }
+
+  // Files written into the old directory mid-move would be left behind by it
+  private assertLibraryWritable(): void {
+    if (this.isMovingLibrary) {
+      throw new Error('The clips are being moved, try again once the move is done');
+    }
   }
 
   private getSettings(): AppSettings {
@@ -973,11 +1506,41 @@ class SoundboardApp {
       enableAutoStart: false,
       enableSpeakerLoopback: false,
       enableHeadphoneLoopback: false,
-      systemAudioBufferDelay: 300 // Default 300ms buffer delay for system audio recording
+      speakerDeviceId: '',
+      headphoneDeviceId: '',
+      virtualOutputVolume: 1.0,
+      speakerMonitorVolume: 1.0,
+      headphoneMonitorVolume: 1.0,
+      loopbackMethod: 'app',
+      manageVirtualAudioDevices: true,
+      virtualMicName: 'SoundBoard Virtual Microphone',
+      mixMicrophoneIntoVirtualMic: false,
+      micPassthroughGainDb: 0,
+      micPassthroughMuted: false,
+      micPushToTalkHotkey: '',
+      micDuckingEnabled: true,
+      micDuckingDb: -12,
+      systemAudioBufferDelay: 300, // Default 300ms buffer delay for system audio recording
+      autoTrimSilence: false,
+      silenceThresholdDb: -50,
+      loudnessTargetLufs: -16, // Common streaming level, leaves headroom for voice
+      autoNormalizeRecordings: false,
+      crossfadeMs: 0,
+      recordingSampleRate: 44100,
+      recordingBitDepth: 16,
+      micRecordingChannels: 1,
+      systemAudioChannels: 2,
+      replayBufferEnabled: false,
+      replayBufferSeconds: 30,
+      replayBufferHotkey: ''
     };
 
     const storedSettings = this.store.get('settings', {});
     const settings = { ...defaultSettings, ...storedSettings };
+    // Older versions saved a picked folder here without ever using it
+    if (this.clipsDirectory) {
+      settings.clipsDirectory = this.clipsDirectory;
+    }
 
     return settings;
   }
@@ -1066,6 +1629,7 @@ class SoundboardApp {
       console.log('System audio capture already in progress');
       return;
     }
+    this.assertLibraryWritable();
 
     const settings = this.getSettings();
     console.log('System audio capture settings:', settings);
@@ -1176,21 +1740,13 @@ class SoundboardApp {
       console.log('Using monitor source:', monitorSourceName);
       
       // Use parecord (PulseAudio native tool) instead of FFmpeg for better reliability
-      const { spawn } = require('child_process');
-      const parecordArgs = [
-        '--format=s16le',
-        '--rate=44100',
-        '--channels=1',
-        '--device=' + monitorSourceName,
-        this.currentRecordingFile
-      ];
+      const format = this.getRecordingFormat('system');
+      this.currentRecordingFormat = format;
       
       // Note: Monitor sources can be loud by default - this is normal PulseAudio behavior
       // The volume will be the same as what you hear through your speakers
       
-      console.log('Running parecord with args:', parecordArgs);
-      
-      const audioProcess = spawn('parecord', parecordArgs);
+      const audioProcess = this.spawnParecordCapture(monitorSourceName, format);
       
       // Set up proper process monitoring
       audioProcess.on('error', (error: Error) => {
@@ -1355,13 +1911,20 @@ class SoundboardApp {
           name: `System_Audio_${this.generateClipNumber()}`,
           filePath: this.currentRecordingFile,
           duration: Math.round(duration * 100) / 100,
-          createdAt: new Date()
+          createdAt: new Date(),
+          source: 'system',
+          recordedFormat: this.getRecordedFormat(this.currentRecordingFile)
         };
 
+        const autoTrim = this.applyAutoTrim(clip);
+        this.applyAutoNormalize(clip);
         this.saveClip(clip);
         
         // Notify renderer of new clip
         this.mainWindow?.webContents.send(IPC_CHANNELS.SAVE_CLIP, clip);
+        if (autoTrim) {
+          this.mainWindow?.webContents.send(IPC_CHANNELS.RECORDING_AUTO_TRIMMED, autoTrim);
+        }
         console.log('System audio clip saved:', clip.name);
       } else {
         console.error('System audio recording file not found:', this.currentRecordingFile);
@@ -1391,38 +1954,154 @@ class SoundboardApp {
     const updatedSettings = { ...currentSettings, ...settings };
     
     this.store.set('settings', updatedSettings);
+    this.refreshVirtualDeviceAvailability();
     
-    if (settings.clipsDirectory) {
-      this.clipsDirectory = settings.clipsDirectory;
-      this.ensureClipsDirectory();
+    if (MIC_PASSTHROUGH_SETTING_KEYS.some(key => settings[key] !== undefined && settings[key] !== currentSettings[key])) {
+      this.micPassthrough.configure(updatedSettings);
+    }
+    
+    if (settings.micPushToTalkHotkey !== undefined && settings.micPushToTalkHotkey !== currentSettings.micPushToTalkHotkey) {
+      this.registerPushToTalk();
+    }
+    
+    if (REPLAY_BUFFER_SETTING_KEYS.some(key => settings[key] !== undefined && settings[key] !== currentSettings[key])) {
+      this.syncReplayBuffer();
+    }
+    
+    if (settings.replayBufferHotkey !== undefined && settings.replayBufferHotkey !== currentSettings.replayBufferHotkey ||
+        settings.replayBufferEnabled !== undefined && settings.replayBufferEnabled !== currentSettings.replayBufferEnabled) {
+      this.registerReplayBufferHotkey();
+      this.sendReplayBufferStatus();
+    }
+    
+    if (VIRTUAL_AUDIO_SETTING_KEYS.some(key => settings[key] !== undefined && settings[key] !== currentSettings[key])) {
+      this.setupVirtualAudio();
+    }
+    
+    if (LOOPBACK_SETTING_KEYS.some(key => settings[key] !== undefined && settings[key] !== currentSettings[key])) {
+      this.syncLoopbacks();
+    }
+    
+    // Output streams are opened per device, reopen them against the new routing
+    if (settings.outputDeviceId !== undefined && settings.outputDeviceId !== currentSettings.outputDeviceId ||
+        settings.virtualAudioDeviceId !== undefined && settings.virtualAudioDeviceId !== currentSettings.virtualAudioDeviceId) {
+      this.audioEngine.resetOutputs();
+    }
+    
+    // Switches folders without taking the clips along; moveLibrary does that
+    if (settings.clipsDirectory && settings.clipsDirectory !== this.clipsDirectory) {
+      this.setClipsDirectory(settings.clipsDirectory);
     }
 
     return updatedSettings;
   }
 
+  // Load or unload monitor loopbacks so they match the current settings
+  public syncLoopbacks(): void {
+    const settings = this.getSettings();
+    (['speaker', 'headphone'] as LoopbackTarget[]).forEach(target => {
+      try {
+        this.loopbackManager.apply(target, this.getLoopbackRoute(target, settings));
+      } catch (error) {
+        console.error(`Cannot set up ${target} loopback:`, error);
+        this.loopbackManager.fail(target, error instanceof Error ? error.message : String(error));
+      }
+    });
+  }
+
+  // The module-loopback a monitor target needs, or null when it should have none
+  private getLoopbackRoute(target: LoopbackTarget, settings: AppSettings): LoopbackRoute | null {
+    const enabled = target === 'speaker' ? settings.enableSpeakerLoopback : settings.enableHeadphoneLoopback;
+    if (settings.loopbackMethod !== 'pulseaudio' || !settings.enableVirtualAudioRouting || !enabled) {
+      return null;
+    }
+
+    const deviceId = this.getMonitorDeviceId(target, settings);
+    if (!deviceId) {
+      throw new Error('No headphone device selected');
+    }
+
+    const virtualSink = this.isValidVirtualDevice(settings.virtualAudioDeviceId)
+      ? resolveSinkName(settings.virtualAudioDeviceId)
+      : null;
+    if (!virtualSink) {
+      throw new Error('Virtual audio device is not an available PulseAudio sink');
+    }
+
+    const sink = resolveSinkName(deviceId);
+    if (!sink) {
+      throw new Error(`${deviceId} is not a PulseAudio sink`);
+    }
+    if (sink === virtualSink) {
+      throw new Error('Monitor device is the virtual device itself');
+    }
+
+    return { source: `${virtualSink}.monitor`, sink };
+  }
+
+  private setLoopbackEnabled(target: LoopbackTarget, enabled: boolean): boolean {
+    console.log(`${enabled ? 'Enabling' : 'Disabling'} ${target} loopback`);
+    this.updateSettings(target === 'speaker' ? { enableSpeakerLoopback: enabled } : { enableHeadphoneLoopback: enabled });
+    return !this.getLoopbackStatus()[target].error;
+  }
+
+  private getLoopbackStatus(): LoopbackStatus {
+    const settings = this.getSettings();
+
+    const getTargetStatus = (target: LoopbackTarget): LoopbackTargetStatus => {
+      if (settings.loopbackMethod === 'pulseaudio') {
+        return this.loopbackManager.getStatus(target);
+      }
+
+      // The app method is live whenever clips are actually sent to the monitor device
+      const enabled = target === 'speaker' ? settings.enableSpeakerLoopback : settings.enableHeadphoneLoopback;
+      const device = this.getMonitorDeviceId(target, settings);
+      const routed = settings.enableVirtualAudioRouting && this.isVirtualDeviceAvailable(settings.virtualAudioDeviceId);
+      return {
+        active: enabled && routed && !!device,
+        method: 'app',
+        device: device || undefined,
+        error: enabled && routed && !device ? 'No headphone device selected' : undefined
+      };
+    };
+
+    return {
+      speaker: getTargetStatus('speaker'),
+      headphone: getTargetStatus('headphone')
+    };
+  }
+
+  // isValidVirtualDevice spawns pactl or aplay, too slow for every trigger. The answer is
+  // kept until the settings change, the device list is refreshed or playback fails.
+  private isVirtualDeviceAvailable(deviceId: string): boolean {
+    let available = this.virtualDeviceAvailability.get(deviceId);
+    if (available === undefined) {
+      available = this.isValidVirtualDevice(deviceId);
+      this.virtualDeviceAvailability.set(deviceId, available);
+    }
+    return available;
+  }
+
+  // Look the routed virtual device up again now, so the next trigger finds the answer waiting
+  private refreshVirtualDeviceAvailability(): void {
+    this.virtualDeviceAvailability.clear();
+    const settings = this.getSettings();
+    if (settings.enableVirtualAudioRouting && settings.virtualAudioDeviceId) {
+      this.isVirtualDeviceAvailable(settings.virtualAudioDeviceId);
+    }
+  }
+
   private isValidVirtualDevice(deviceId: string): boolean {
     try {
       if (deviceId === 'soundboard-output') {
         // Check if soundboard-output exists
-        const { execSync } = require('child_process');
-        const pulseOutput = execSync('pactl list short sinks', { stdio: 'pipe' }).toString();
-        return pulseOutput.includes('soundboard-output');
+        return listPulseEntries('sinks').some(sink => sink.name === 'soundboard-output');
       }
       
       if (deviceId.startsWith('pulse-')) {
         // Check if PulseAudio device exists
-        const { execSync } = require('child_process');
         const deviceIdNum = deviceId.replace('pulse-', '');
-        const pulseOutput = execSync('pactl list short sinks', { stdio: 'pipe' }).toString();
-        const lines = pulseOutput.split('\n').filter((line: string) => line.trim());
-        
-        for (const line of lines) {
-          const parts = line.split('\t');
-          if (parts[0] === deviceIdNum && parts.length >= 2) {
-            return true;
-          }
-        }
-        return false;
+        return listPulseEntries('sinks').some(sink => sink.index === deviceIdNum);
       }
       
       if (deviceId.startsWith('alsa-')) {
@@ -1441,6 +2120,7 @@ class SoundboardApp {
   }
 
   private getAudioDevices(): AudioDevice[] {
+    this.refreshVirtualDeviceAvailability();
     try {
       const devices: AudioDevice[] = [];
       
@@ -1619,6 +2299,22 @@ class SoundboardApp {
         console.log('Could not get PulseAudio monitor sources:', error.message);
       }
 
+      // ALSA capture cards, for recording straight from the hardware
+      try {
+        this.getAlsaCaptureCards().forEach(capture => {
+          devices.push({
+            id: `alsa-input-${capture.card}`,
+            name: `🎤 ${capture.name}`,
+            type: 'input',
+            isDefault: false,
+            isMonitor: false,
+            description: 'ALSA capture device'
+          });
+        });
+      } catch (error: any) {
+        console.log('Could not get ALSA capture devices:', error.message);
+      }
+
       return devices.length > 0 ? devices : [
         { id: 'default', name: 'Default Output', type: 'output', isDefault: true }
       ];
@@ -1630,6 +2326,20 @@ class SoundboardApp {
     }
   }
 
+  // Cards listed by `arecord -l`; each is recorded through its first device
+  private getAlsaCaptureCards(): { card: string; name: string }[] {
+    const { execSync } = require('child_process');
+    const alsaOutput = execSync('arecord -l', { stdio: 'pipe' }).toString();
+    const cards: { card: string; name: string }[] = [];
+    alsaOutput.split('\n').forEach((line: string) => {
+      const match = line.match(/card (\d+): (.+?) \[(.+?)\]/);
+      if (match && !cards.some(capture => capture.card === match[1])) {
+        cards.push({ card: match[1], name: `${match[2]} (${match[3]})` });
+      }
+    });
+    return cards;
+  }
+
   private registerHotkey(assignment: { clipId: string; key: string; modifiers: string[] }): boolean {
     const { clipId, key, modifiers } = assignment;
     const hotkeyString = [...modifiers, key].join('+');
@@ -1655,12 +2365,7 @@ class SoundboardApp {
         this.hotkeyMap.set(hotkeyString, clipId);
         
         // Update clip with hotkey
-        const clips = this.getClips();
-        const clipIndex = clips.findIndex(c => c.id === clipId);
-        if (clipIndex >= 0) {
-          clips[clipIndex].hotkey = hotkeyString;
-          this.store.set('clips', clips);
-        }
+        this.clipRepository.update(clipId, { hotkey: hotkeyString });
 
         return true;
       }
@@ -1672,8 +2377,7 @@ class SoundboardApp {
   }
 
   private unregisterHotkey(clipId: string): boolean {
-    const clips = this.getClips();
-    const clip = clips.find(c => c.id === clipId);
+    const clip = this.clipRepository.get(clipId);
     if (!clip?.hotkey) return false;
 
     const hotkeyString = clip.hotkey;
@@ -1685,19 +2389,14 @@ class SoundboardApp {
     this.hotkeyMap.delete(hotkeyString);
     
     // Remove from clip
-    const clipIndex = clips.findIndex(c => c.id === clipId);
-    if (clipIndex >= 0) {
-      clips[clipIndex].hotkey = undefined;
-      this.store.set('clips', clips);
-    }
+    this.clipRepository.update(clipId, { hotkey: undefined });
 
     return true;
   }
 
   public setupGlobalShortcuts(): void {
     // Register any existing hotkeys on startup
-    const clips = this.getClips();
-    clips.forEach(clip => {
+    this.getClips().forEach(clip => {
       if (clip.hotkey) {
         this.registerHotkey({
           clipId: clip.id,
@@ -1706,6 +2405,194 @@ class SoundboardApp {
         });
       }
     });
+
+    this.registerPushToTalk();
+    this.registerReplayBufferHotkey();
+  }
+
+  // Push-to-talk is a shortcut of its own and never takes over a clip's hotkey
+  private registerPushToTalk(): void {
+    if (this.pushToTalkHotkey) {
+      globalShortcut.unregister(this.pushToTalkHotkey);
+      this.pushToTalkHotkey = null;
+    }
+    this.pushToTalkError = undefined;
+
+    const hotkey = this.getSettings().micPushToTalkHotkey;
+    if (!hotkey) return;
+
+    if (this.hotkeyMap.has(hotkey)) {
+      this.pushToTalkError = `${hotkey} is already assigned to a clip`;
+      return;
+    }
+
+    try {
+      if (globalShortcut.register(hotkey, () => this.micPassthrough.pushToTalk())) {
+        this.pushToTalkHotkey = hotkey;
+      } else {
+        this.pushToTalkError = `${hotkey} is in use by another application`;
+      }
+    } catch (error) {
+      this.pushToTalkError = `${hotkey} is not a valid shortcut`;
+    }
+
+    if (this.pushToTalkError) {
+      console.error('Push-to-talk unavailable:', this.pushToTalkError);
+    }
+  }
+
+  private getMicPassthroughStatus(): MicPassthroughStatus {
+    const status = this.micPassthrough.getStatus();
+    return this.pushToTalkError ? { ...status, error: status.error || this.pushToTalkError } : status;
+  }
+
+  // Saving the replay buffer is a shortcut of its own and never takes over a clip's hotkey
+  private registerReplayBufferHotkey(): void {
+    if (this.replayBufferHotkey) {
+      globalShortcut.unregister(this.replayBufferHotkey);
+      this.replayBufferHotkey = null;
+    }
+    this.replayBufferHotkeyError = undefined;
+
+    const settings = this.getSettings();
+    const hotkey = settings.replayBufferHotkey;
+    if (!settings.replayBufferEnabled || !hotkey) return;
+
+    if (this.hotkeyMap.has(hotkey) || hotkey === this.pushToTalkHotkey) {
+      this.replayBufferHotkeyError = `${hotkey} is already assigned`;
+      return;
+    }
+
+    try {
+      if (globalShortcut.register(hotkey, () => this.saveReplayBufferFromHotkey())) {
+        this.replayBufferHotkey = hotkey;
+      } else {
+        this.replayBufferHotkeyError = `${hotkey} is in use by another application`;
+      }
+    } catch (error) {
+      this.replayBufferHotkeyError = `${hotkey} is not a valid shortcut`;
+    }
+
+    if (this.replayBufferHotkeyError) {
+      console.error('Replay buffer hotkey unavailable:', this.replayBufferHotkeyError);
+    }
+  }
+
+  private saveReplayBufferFromHotkey(): void {
+    try {
+      this.saveReplayBuffer();
+    } catch (error) {
+      this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_ERROR, {
+        message: 'Could not save the replay buffer',
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  // Arm, re-arm or disarm the replay buffer so it matches the settings
+  public syncReplayBuffer(): void {
+    const settings = this.getSettings();
+    if (!settings.replayBufferEnabled) {
+      this.replayBuffer.stop();
+      this.replayBufferError = undefined;
+      this.sendReplayBufferStatus();
+      return;
+    }
+
+    const format = this.getRecordingFormat('system');
+    const seconds = this.getReplayBufferSeconds(settings);
+    try {
+      const source = this.resolveReplayBufferSource(settings.inputDeviceId);
+      if (!this.replayBuffer.matches(source, format, seconds)) {
+        console.log(`Arming replay buffer: last ${seconds}s of ${source}`);
+        this.replayBuffer.start(source, format, seconds);
+      }
+      this.replayBufferError = undefined;
+    } catch (error) {
+      this.replayBuffer.stop();
+      this.replayBufferError = error instanceof Error ? error.message : String(error);
+      console.error('Replay buffer unavailable:', this.replayBufferError);
+    }
+    this.sendReplayBufferStatus();
+  }
+
+  // The selected system audio monitor, or the monitor of the default output when none is selected
+  private resolveReplayBufferSource(inputDeviceId: string): string {
+    if (inputDeviceId.startsWith('monitor-')) {
+      const index = inputDeviceId.replace('monitor-', '');
+      const source = listPulseEntries('sources').find(entry => entry.index === index);
+      if (!source) {
+        throw new Error('The selected system audio source is no longer available');
+      }
+      return source.name;
+    }
+
+    const sinkName = getDefaultSinkName();
+    if (!sinkName) {
+      throw new Error('There is no default output to capture');
+    }
+    return `${sinkName}.monitor`;
+  }
+
+  private getReplayBufferSeconds(settings: AppSettings): number {
+    return Math.max(REPLAY_BUFFER_MIN_SECONDS, Math.min(REPLAY_BUFFER_MAX_SECONDS, settings.replayBufferSeconds || 30));
+  }
+
+  // parecord went away on its own; what is buffered so far can still be saved
+  private handleReplayBufferStopped(reason: string): void {
+    console.error('Replay buffer stopped:', reason);
+    this.replayBufferError = `Capture stopped: ${reason}`;
+    this.sendReplayBufferStatus();
+  }
+
+  private getReplayBufferStatus(): ReplayBufferStatus {
+    const settings = this.getSettings();
+    return {
+      armed: this.replayBuffer.isRunning,
+      seconds: this.getReplayBufferSeconds(settings),
+      source: this.replayBuffer.sourceName || undefined,
+      error: settings.replayBufferEnabled ? this.replayBufferError || this.replayBufferHotkeyError : undefined
+    };
+  }
+
+  private sendReplayBufferStatus(): void {
+    this.mainWindow?.webContents.send(IPC_CHANNELS.REPLAY_BUFFER_STATUS_CHANGED, this.getReplayBufferStatus());
+  }
+
+  // Write what the replay buffer holds to a new clip; the buffer keeps running
+  private saveReplayBuffer(): AudioClip {
+    this.assertLibraryWritable();
+    const snapshot = this.replayBuffer.snapshot();
+    if (!snapshot) {
+      throw new Error(this.replayBuffer.isRunning ? 'The replay buffer is still empty' : 'The replay buffer is not armed');
+    }
+
+    const { format, data } = snapshot;
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filePath = path.join(this.clipsDirectory, `replay_${timestamp}.wav`);
+    writeWavFile(filePath, { audioFormat: 1, ...format }, data);
+
+    const duration = data.length / ((format.bitDepth / 8) * format.channels) / format.sampleRate;
+    const clip: AudioClip = {
+      id: this.generateClipId(),
+      name: `Replay_${this.generateClipNumber()}`,
+      filePath,
+      duration: Math.round(duration * 100) / 100,
+      createdAt: new Date(),
+      source: 'system',
+      recordedFormat: format
+    };
+
+    const autoTrim = this.applyAutoTrim(clip);
+    this.applyAutoNormalize(clip);
+    this.saveClip(clip);
+
+    this.mainWindow?.webContents.send(IPC_CHANNELS.SAVE_CLIP, clip);
+    if (autoTrim) {
+      this.mainWindow?.webContents.send(IPC_CHANNELS.RECORDING_AUTO_TRIMMED, autoTrim);
+    }
+    console.log(`Replay buffer saved as ${clip.name} (${clip.duration}s)`);
+    return clip;
   }
 
   // Add cleanup method for app shutdown
@@ -1725,7 +2612,7 @@ class SoundboardApp {
     }
     
     // Stop any active playback
-    if (this.playbackState.isPlaying) {
+    if (this.voices.size > 0) {
       console.log('Stopping active playback...');
       this.stopPlayback();
     }
@@ -1736,6 +2623,24 @@ class SoundboardApp {
       this.recordingTimeout = null;
     }
     
+    this.libraryWatcher.stop();
+    if (this.vanishedClipTimer) {
+      clearTimeout(this.vanishedClipTimer);
+      this.vanishedClipTimer = null;
+    }
+
+    // Close the audio engine's output streams
+    this.audioEngine.dispose();
+    
+    // Unload our monitor loopbacks; they are loaded again on the next start
+    this.loopbackManager.unloadAll();
+    
+    // Drop the push-to-talk release timer
+    this.micPassthrough.dispose();
+    
+    // Stop capturing into the replay buffer
+    this.replayBuffer.stop();
+    
     // Clean up virtual audio devices
     this.cleanupVirtualAudioDevices();
     
@@ -1746,11 +2651,14 @@ class SoundboardApp {
   }
 
   // Add method to handle playback errors more gracefully
-  private handlePlaybackError(error: Error, clipId: string, method: string): void {
-    console.error(`Playback error for clip ${clipId} using ${method}:`, error);
+  private handlePlaybackError(error: Error, voiceId: string, method: string): void {
+    // Processes killed by stopPlayback report errors too; those are not failures
+    if (!this.isVoiceActive(voiceId)) return;
+
+    console.error(`Playback error for voice ${voiceId} using ${method}:`, error);
     
-    // Stop playback on error
-    this.stopPlayback();
+    // Stop the failed voice only, other voices keep playing
+    this.stopVoice(voiceId);
     
     // Notify renderer of the error
     this.mainWindow?.webContents.send(IPC_CHANNELS.PLAYBACK_ERROR, {
@@ -1767,6 +2675,9 @@ app.whenReady().then(() => {
   soundboardApp.createWindow();
   soundboardApp.setupIPC();
   soundboardApp.setupGlobalShortcuts();
+  soundboardApp.setupVirtualAudio();
+  soundboardApp.syncLoopbacks();
+  soundboardApp.syncReplayBuffer();
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
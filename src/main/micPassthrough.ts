@@ -0,0 +1,153 @@
+import { AppSettings, MicPassthroughStatus } from '../shared/types';
+import { findSinkInputByOwnerModule, setSinkInputMute, setSinkInputVolume } from './pulseAudio';
+import { findMicInputLoopbackModule } from './virtualAudioManager';
+import { dbToGain } from './wavFile';
+
+// Global shortcuts only report presses; key repeat keeps re-pressing while the key is
+// held, so the mic closes once no press arrived for longer than the repeat delay
+const PUSH_TO_TALK_RELEASE_MS = 700;
+
+export type MicPassthroughSettings = Pick<AppSettings,
+  'mixMicrophoneIntoVirtualMic' |
+  'micPassthroughGainDb' |
+  'micPassthroughMuted' |
+  'micPushToTalkHotkey' |
+  'micDuckingEnabled' |
+  'micDuckingDb'
+>;
+
+/**
+ * Controls the microphone loopback of the virtual device chain through the volume and
+ * mute of its sink input, so gain, mute, push-to-talk and ducking never reload the module.
+ */
+export class MicPassthrough {
+  private sinkInput: string | null = null;
+  private talking = false;
+  private ducked = false;
+  private releaseTimer: NodeJS.Timeout | null = null;
+  private applied: { open: boolean; gainDb: number } | null = null;
+  private error: string | undefined;
+
+  constructor(private settings: MicPassthroughSettings) {}
+
+  public configure(settings: MicPassthroughSettings): void {
+    this.settings = settings;
+    if (!settings.micPushToTalkHotkey) {
+      this.release();
+    }
+    this.apply(true);
+  }
+
+  // The loopback was recreated or removed, look its sink input up again
+  public invalidate(): void {
+    this.sinkInput = null;
+    this.apply(true);
+  }
+
+  public setDucked(ducked: boolean): void {
+    if (ducked === this.ducked) return;
+    this.ducked = ducked;
+    this.apply();
+  }
+
+  // Called for every press (and key repeat) of the push-to-talk hotkey
+  public pushToTalk(): void {
+    if (this.releaseTimer) {
+      clearTimeout(this.releaseTimer);
+    }
+    this.releaseTimer = setTimeout(() => {
+      this.releaseTimer = null;
+      this.talking = false;
+      this.apply();
+    }, PUSH_TO_TALK_RELEASE_MS);
+
+    if (!this.talking) {
+      this.talking = true;
+      this.apply();
+    }
+  }
+
+  public getStatus(): MicPassthroughStatus {
+    const { open, gainDb } = this.getTarget();
+    return {
+      active: this.settings.mixMicrophoneIntoVirtualMic && !!this.applied && !this.error,
+      open,
+      ducked: this.isDucking(),
+      gainDb,
+      error: this.error
+    };
+  }
+
+  public dispose(): void {
+    this.release();
+  }
+
+  private release(): void {
+    if (this.releaseTimer) {
+      clearTimeout(this.releaseTimer);
+      this.releaseTimer = null;
+    }
+    this.talking = false;
+  }
+
+  private isDucking(): boolean {
+    return this.settings.micDuckingEnabled && this.ducked;
+  }
+
+  private getTarget(): { open: boolean; gainDb: number } {
+    const open = !this.settings.micPassthroughMuted && (!this.settings.micPushToTalkHotkey || this.talking);
+    const gainDb = this.settings.micPassthroughGainDb + (this.isDucking() ? this.settings.micDuckingDb : 0);
+    return { open, gainDb };
+  }
+
+  // Push the wanted level to the sink input; unchanged levels are skipped unless forced
+  private apply(force = false): void {
+    if (!this.settings.mixMicrophoneIntoVirtualMic) {
+      this.applied = null;
+      this.error = undefined;
+      return;
+    }
+
+    const target = this.getTarget();
+    if (!force && this.applied && this.applied.open === target.open && this.applied.gainDb === target.gainDb) {
+      return;
+    }
+
+    try {
+      this.setLevel(target.open, target.gainDb);
+      this.applied = target;
+      this.error = undefined;
+    } catch (error) {
+      // A cached sink input goes away with its module, look it up once more
+      this.sinkInput = null;
+      try {
+        this.setLevel(target.open, target.gainDb);
+        this.applied = target;
+        this.error = undefined;
+      } catch (retryError) {
+        this.applied = null;
+        this.error = retryError instanceof Error ? retryError.message : String(retryError);
+        console.error('Failed to update microphone passthrough:', this.error);
+      }
+    }
+  }
+
+  private setLevel(open: boolean, gainDb: number): void {
+    const sinkInput = this.sinkInput || this.findSinkInput();
+    setSinkInputMute(sinkInput, !open);
+    setSinkInputVolume(sinkInput, dbToGain(gainDb));
+    this.sinkInput = sinkInput;
+  }
+
+  private findSinkInput(): string {
+    const moduleId = findMicInputLoopbackModule();
+    if (!moduleId) {
+      throw new Error('The microphone loopback is not loaded');
+    }
+    const sinkInput = findSinkInputByOwnerModule(moduleId);
+    if (!sinkInput) {
+      throw new Error(`Microphone loopback module ${moduleId} has no sink input`);
+    }
+    return sinkInput;
+  }
+}
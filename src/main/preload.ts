@@ -10,6 +10,9 @@ const IPC_CHANNELS = {
   // Audio playback
   PLAY_CLIP: 'play-clip',
   STOP_PLAYBACK: 'stop-playback',
+  PAUSE_PLAYBACK: 'pause-playback',
+  RESUME_PLAYBACK: 'resume-playback',
+  SEEK_PLAYBACK: 'seek-playback',
   PLAYBACK_STATE_CHANGED: 'playback-state-changed',
   PLAYBACK_ERROR: 'playback-error',
   
@@ -18,6 +21,22 @@ const IPC_CHANNELS = {
   SAVE_CLIP: 'save-clip',
   DELETE_CLIP: 'delete-clip',
   RENAME_CLIP: 'rename-clip',
+  SCAN_LIBRARY: 'scan-library',
+  GET_LIBRARY_SCAN: 'get-library-scan',
+  RELINK_CLIP: 'relink-clip',
+  GET_CLIP_WAVEFORM: 'get-clip-waveform',
+  BAKE_CLIP_TRIM: 'bake-clip-trim',
+  RECORDING_AUTO_TRIMMED: 'recording-auto-trimmed',
+  RECORDING_LEVELS: 'recording-levels',
+  UNDO_AUTO_TRIM: 'undo-auto-trim',
+  LIBRARY_CHANGED: 'library-changed',
+  IMPORT_CLIPS: 'import-clips',
+  EXPORT_SOUND_PACK: 'export-sound-pack',
+  IMPORT_SOUND_PACK: 'import-sound-pack',
+  NORMALIZE_LIBRARY: 'normalize-library',
+  CHOOSE_CLIPS_DIRECTORY: 'choose-clips-directory',
+  MOVE_LIBRARY: 'move-library',
+  LIBRARY_MOVE_PROGRESS: 'library-move-progress',
   
   // Settings
   GET_SETTINGS: 'get-settings',
@@ -42,7 +61,22 @@ const IPC_CHANNELS = {
   ENABLE_SPEAKER_LOOPBACK: 'enable-speaker-loopback',
   DISABLE_SPEAKER_LOOPBACK: 'disable-speaker-loopback',
   ENABLE_HEADPHONE_LOOPBACK: 'enable-headphone-loopback',
-  DISABLE_HEADPHONE_LOOPBACK: 'disable-headphone-loopback'
+  DISABLE_HEADPHONE_LOOPBACK: 'disable-headphone-loopback',
+  GET_LOOPBACK_STATUS: 'get-loopback-status',
+  
+  // Virtual audio device management
+  GET_VIRTUAL_AUDIO_STATUS: 'get-virtual-audio-status',
+  ENSURE_VIRTUAL_AUDIO: 'ensure-virtual-audio',
+  REPAIR_VIRTUAL_AUDIO: 'repair-virtual-audio',
+  REMOVE_VIRTUAL_AUDIO: 'remove-virtual-audio',
+  
+  // Microphone passthrough
+  GET_MIC_PASSTHROUGH_STATUS: 'get-mic-passthrough-status',
+  
+  // Instant replay buffer
+  GET_REPLAY_BUFFER_STATUS: 'get-replay-buffer-status',
+  REPLAY_BUFFER_STATUS_CHANGED: 'replay-buffer-status-changed',
+  SAVE_REPLAY_BUFFER: 'save-replay-buffer'
 } as const;
 
 // Expose protected methods that allow the renderer process to use
@@ -54,13 +88,28 @@ contextBridge.exposeInMainWorld('electronAPI', {
   
   // Audio playback
   playClip: (clipId: string) => ipcRenderer.invoke(IPC_CHANNELS.PLAY_CLIP, clipId),
-  stopPlayback: () => ipcRenderer.invoke(IPC_CHANNELS.STOP_PLAYBACK),
+  stopPlayback: (clipId?: string) => ipcRenderer.invoke(IPC_CHANNELS.STOP_PLAYBACK, clipId),
+  pausePlayback: (clipId?: string) => ipcRenderer.invoke(IPC_CHANNELS.PAUSE_PLAYBACK, clipId),
+  resumePlayback: (clipId?: string) => ipcRenderer.invoke(IPC_CHANNELS.RESUME_PLAYBACK, clipId),
+  seekPlayback: (clipId: string, position: number) => ipcRenderer.invoke(IPC_CHANNELS.SEEK_PLAYBACK, { clipId, position }),
   
   // Clip management
   getClips: () => ipcRenderer.invoke(IPC_CHANNELS.GET_CLIPS),
   saveClip: (clip: any) => ipcRenderer.invoke(IPC_CHANNELS.SAVE_CLIP, clip),
   deleteClip: (clipId: string) => ipcRenderer.invoke(IPC_CHANNELS.DELETE_CLIP, clipId),
   renameClip: (id: string, name: string) => ipcRenderer.invoke(IPC_CHANNELS.RENAME_CLIP, { id, name }),
+  scanLibrary: () => ipcRenderer.invoke(IPC_CHANNELS.SCAN_LIBRARY),
+  getLibraryScan: () => ipcRenderer.invoke(IPC_CHANNELS.GET_LIBRARY_SCAN),
+  relinkClip: (clipId: string) => ipcRenderer.invoke(IPC_CHANNELS.RELINK_CLIP, clipId),
+  getClipWaveform: (clipId: string, bucketCount: number) => ipcRenderer.invoke(IPC_CHANNELS.GET_CLIP_WAVEFORM, { clipId, bucketCount }),
+  bakeClipTrim: (clipId: string) => ipcRenderer.invoke(IPC_CHANNELS.BAKE_CLIP_TRIM, clipId),
+  undoAutoTrim: (clipId: string) => ipcRenderer.invoke(IPC_CHANNELS.UNDO_AUTO_TRIM, clipId),
+  importClips: (filePaths?: string[]) => ipcRenderer.invoke(IPC_CHANNELS.IMPORT_CLIPS, filePaths),
+  exportSoundPack: (clipIds?: string[]) => ipcRenderer.invoke(IPC_CHANNELS.EXPORT_SOUND_PACK, clipIds),
+  importSoundPack: (packPath?: string) => ipcRenderer.invoke(IPC_CHANNELS.IMPORT_SOUND_PACK, packPath),
+  normalizeLibrary: (targetLufs: number) => ipcRenderer.invoke(IPC_CHANNELS.NORMALIZE_LIBRARY, targetLufs),
+  chooseClipsDirectory: () => ipcRenderer.invoke(IPC_CHANNELS.CHOOSE_CLIPS_DIRECTORY),
+  moveLibrary: (directory: string, mode: string) => ipcRenderer.invoke(IPC_CHANNELS.MOVE_LIBRARY, { directory, mode }),
   
   // Settings
   getSettings: () => ipcRenderer.invoke(IPC_CHANNELS.GET_SETTINGS),
@@ -85,6 +134,20 @@ contextBridge.exposeInMainWorld('electronAPI', {
   disableSpeakerLoopback: () => ipcRenderer.invoke(IPC_CHANNELS.DISABLE_SPEAKER_LOOPBACK),
   enableHeadphoneLoopback: () => ipcRenderer.invoke(IPC_CHANNELS.ENABLE_HEADPHONE_LOOPBACK),
   disableHeadphoneLoopback: () => ipcRenderer.invoke(IPC_CHANNELS.DISABLE_HEADPHONE_LOOPBACK),
+  getLoopbackStatus: () => ipcRenderer.invoke(IPC_CHANNELS.GET_LOOPBACK_STATUS),
+  
+  // Virtual audio device management
+  getVirtualAudioStatus: () => ipcRenderer.invoke(IPC_CHANNELS.GET_VIRTUAL_AUDIO_STATUS),
+  ensureVirtualAudio: () => ipcRenderer.invoke(IPC_CHANNELS.ENSURE_VIRTUAL_AUDIO),
+  repairVirtualAudio: () => ipcRenderer.invoke(IPC_CHANNELS.REPAIR_VIRTUAL_AUDIO),
+  removeVirtualAudio: () => ipcRenderer.invoke(IPC_CHANNELS.REMOVE_VIRTUAL_AUDIO),
+  
+  // Microphone passthrough
+  getMicPassthroughStatus: () => ipcRenderer.invoke(IPC_CHANNELS.GET_MIC_PASSTHROUGH_STATUS),
+  
+  // Instant replay buffer
+  getReplayBufferStatus: () => ipcRenderer.invoke(IPC_CHANNELS.GET_REPLAY_BUFFER_STATUS),
+  saveReplayBuffer: () => ipcRenderer.invoke(IPC_CHANNELS.SAVE_REPLAY_BUFFER),
   
   // Event listeners
   onRecordingStateChanged: (callback: (state: any) => void) => {
@@ -99,6 +162,26 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on(IPC_CHANNELS.SAVE_CLIP, (_, clip) => callback(clip));
   },
   
+  onLibraryChanged: (callback: (change: any) => void) => {
+    ipcRenderer.on(IPC_CHANNELS.LIBRARY_CHANGED, (_, change) => callback(change));
+  },
+  
+  onLibraryMoveProgress: (callback: (progress: any) => void) => {
+    ipcRenderer.on(IPC_CHANNELS.LIBRARY_MOVE_PROGRESS, (_, progress) => callback(progress));
+  },
+  
+  onRecordingAutoTrimmed: (callback: (autoTrim: any) => void) => {
+    ipcRenderer.on(IPC_CHANNELS.RECORDING_AUTO_TRIMMED, (_, autoTrim) => callback(autoTrim));
+  },
+  
+  onRecordingLevels: (callback: (levels: any) => void) => {
+    ipcRenderer.on(IPC_CHANNELS.RECORDING_LEVELS, (_, levels) => callback(levels));
+  },
+  
+  onReplayBufferStatusChanged: (callback: (status: any) => void) => {
+    ipcRenderer.on(IPC_CHANNELS.REPLAY_BUFFER_STATUS_CHANGED, (_, status) => callback(status));
+  },
+  
   onHotkeyPressed: (callback: (clipId: string) => void) => {
     ipcRenderer.on(IPC_CHANNELS.HOTKEY_PRESSED, (_, clipId) => callback(clipId));
   },
@@ -120,11 +203,26 @@ declare global {
       startRecording: () => Promise<void>;
       stopRecording: () => Promise<any>;
       playClip: (clipId: string) => Promise<void>;
-      stopPlayback: () => Promise<void>;
+      stopPlayback: (clipId?: string) => Promise<void>;
+      pausePlayback: (clipId?: string) => Promise<void>;
+      resumePlayback: (clipId?: string) => Promise<void>;
+      seekPlayback: (clipId: string, position: number) => Promise<void>;
       getClips: () => Promise<any[]>;
       saveClip: (clip: any) => Promise<any>;
       deleteClip: (clipId: string) => Promise<boolean>;
       renameClip: (id: string, name: string) => Promise<any>;
+      scanLibrary: () => Promise<any>;
+      getLibraryScan: () => Promise<any>;
+      relinkClip: (clipId: string) => Promise<any>;
+      getClipWaveform: (clipId: string, bucketCount: number) => Promise<any>;
+      bakeClipTrim: (clipId: string) => Promise<any>;
+      undoAutoTrim: (clipId: string) => Promise<any>;
+      importClips: (filePaths?: string[]) => Promise<any>;
+      exportSoundPack: (clipIds?: string[]) => Promise<any>;
+      importSoundPack: (packPath?: string) => Promise<any>;
+      normalizeLibrary: (targetLufs: number) => Promise<any>;
+      chooseClipsDirectory: () => Promise<string | null>;
+      moveLibrary: (directory: string, mode: string) => Promise<any>;
       getSettings: () => Promise<any>;
       updateSettings: (settings: any) => Promise<any>;
       getAudioDevices: () => Promise<any[]>;
@@ -135,9 +233,26 @@ declare global {
       getAutostartStatus: () => Promise<{ isInstalled: boolean; isEnabled: boolean; isActive: boolean }>;
       startSystemAudioCapture: () => Promise<void>;
       stopSystemAudioCapture: () => Promise<any>;
+      enableSpeakerLoopback: () => Promise<boolean>;
+      disableSpeakerLoopback: () => Promise<boolean>;
+      enableHeadphoneLoopback: () => Promise<boolean>;
+      disableHeadphoneLoopback: () => Promise<boolean>;
+      getLoopbackStatus: () => Promise<any>;
+      getVirtualAudioStatus: () => Promise<any>;
+      ensureVirtualAudio: () => Promise<any>;
+      repairVirtualAudio: () => Promise<any>;
+      removeVirtualAudio: () => Promise<any>;
+      getMicPassthroughStatus: () => Promise<any>;
+      getReplayBufferStatus: () => Promise<any>;
+      saveReplayBuffer: () => Promise<any>;
       onRecordingStateChanged: (callback: (state: any) => void) => void;
       onPlaybackStateChanged: (callback: (state: any) => void) => void;
       onClipSaved: (callback: (clip: any) => void) => void;
+      onLibraryChanged: (callback: (change: any) => void) => void;
+      onLibraryMoveProgress: (callback: (progress: any) => void) => void;
+      onRecordingAutoTrimmed: (callback: (autoTrim: any) => void) => void;
+      onRecordingLevels: (callback: (levels: any) => void) => void;
+      onReplayBufferStatusChanged: (callback: (status: any) => void) => void;
       onHotkeyPressed: (callback: (clipId: string) => void) => void;
       onPlaybackError: (callback: (errorData: any) => void) => void;
       removeAllListeners: (channel: string) => void;
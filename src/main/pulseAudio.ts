@@ -0,0 +1,93 @@
+import { execSync, execFileSync } from 'child_process';
+
+// One row of `pactl list short <type>`
+export interface PulseEntry {
+  index: string;
+  name: string;
+  fields: string[];
+}
+
+export type PulseListType = 'sinks' | 'sources' | 'modules' | 'sink-inputs' | 'source-outputs';
+
+// Raw volume value PulseAudio treats as 100%
+const PA_VOLUME_NORM = 65536;
+
+export function listPulseEntries(type: PulseListType): PulseEntry[] {
+  const output = execSync(`pactl list short ${type}`, { stdio: 'pipe' }).toString();
+  return output
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const fields = line.split('\t');
+      return { index: fields[0], name: fields[1] || '', fields };
+    });
+}
+
+// Resolve the numeric index used in `pulse-<index>` device ids to a sink name
+export function getSinkNameByIndex(index: string): string | null {
+  const sink = listPulseEntries('sinks').find(entry => entry.index === index);
+  return sink ? sink.name : null;
+}
+
+export function getDefaultSinkName(): string | null {
+  const info = execSync('pactl info', { stdio: 'pipe' }).toString();
+  const match = info.match(/^Default Sink:\s*(.+)$/m);
+  return match ? match[1].trim() : null;
+}
+
+export function getDefaultSourceName(): string | null {
+  const info = execSync('pactl info', { stdio: 'pipe' }).toString();
+  const match = info.match(/^Default Source:\s*(.+)$/m);
+  return match ? match[1].trim() : null;
+}
+
+// Resolve an AppSettings output device id to the PulseAudio sink it plays to;
+// ALSA devices and unknown ids have no sink
+export function resolveSinkName(deviceId: string): string | null {
+  if (!deviceId || deviceId === 'default') {
+    return getDefaultSinkName();
+  }
+  if (deviceId.startsWith('pulse-')) {
+    return getSinkNameByIndex(deviceId.replace('pulse-', ''));
+  }
+  if (deviceId === 'soundboard-output') {
+    return 'soundboard-output';
+  }
+  if (deviceId === 'vb-cable') {
+    return 'VB-Audio';
+  }
+  return null;
+}
+
+// Returns the index of the newly loaded module
+export function loadModule(name: string, args: string[]): string {
+  return execFileSync('pactl', ['load-module', name, ...args], { stdio: 'pipe' }).toString().trim();
+}
+
+export function unloadModule(index: string): void {
+  execFileSync('pactl', ['unload-module', index], { stdio: 'pipe' });
+}
+
+// The short listing leaves out which module owns a sink input, so read the long one;
+// LC_ALL=C keeps the field names untranslated
+export function findSinkInputByOwnerModule(moduleId: string): string | null {
+  const output = execSync('pactl list sink-inputs', { stdio: 'pipe', env: { ...process.env, LC_ALL: 'C' } }).toString();
+  const block = output
+    .split(/^Sink Input #/m)
+    .slice(1)
+    .find(entry => {
+      const owner = entry.match(/^\s*Owner Module:\s*(\d+)\s*$/m);
+      return !!owner && owner[1] === moduleId;
+    });
+  return block ? block.split('\n')[0].trim() : null;
+}
+
+// Gain is linear, 1 = 100%
+export function setSinkInputVolume(index: string, gain: number): void {
+  const volume = Math.round(Math.max(0, gain) * PA_VOLUME_NORM);
+  execFileSync('pactl', ['set-sink-input-volume', index, String(volume)], { stdio: 'pipe' });
+}
+
+export function setSinkInputMute(index: string, muted: boolean): void {
+  execFileSync('pactl', ['set-sink-input-mute', index, muted ? '1' : '0'], { stdio: 'pipe' });
+}
@@ -0,0 +1,141 @@
+import { spawn, ChildProcess } from 'child_process';
+import { RecordingFormat } from '../shared/types';
+
+// Lengths the replay buffer can hold; settings outside are clamped
+export const REPLAY_BUFFER_MIN_SECONDS = 10;
+export const REPLAY_BUFFER_MAX_SECONDS = 120;
+
+/**
+ * Keeps the last few seconds of a PulseAudio source in memory. parecord streams raw PCM
+ * into a ring buffer that is allocated once when the buffer is armed, so memory stays at
+ * seconds × sample rate × frame size however long it runs.
+ */
+export class ReplayBuffer {
+  private process: ChildProcess | null = null;
+  private ring: Buffer | null = null;
+  private writeOffset = 0;
+  private filledBytes = 0;
+  private format: RecordingFormat | null = null;
+  private source: string | null = null;
+
+  constructor(private onStopped: (reason: string) => void) {}
+
+  public get isRunning(): boolean {
+    return this.process !== null;
+  }
+
+  public get sourceName(): string | null {
+    return this.source;
+  }
+
+  // Whether the buffer already records this source in this format and length
+  public matches(source: string, format: RecordingFormat, seconds: number): boolean {
+    return this.isRunning &&
+      this.source === source &&
+      !!this.format &&
+      this.format.sampleRate === format.sampleRate &&
+      this.format.channels === format.channels &&
+      this.format.bitDepth === format.bitDepth &&
+      this.ring?.length === this.getCapacityBytes(format, seconds);
+  }
+
+  public start(source: string, format: RecordingFormat, seconds: number): void {
+    this.stop();
+
+    this.ring = Buffer.alloc(this.getCapacityBytes(format, seconds));
+    this.format = format;
+    this.source = source;
+
+    const audioProcess = spawn('parecord', [
+      '--raw',
+      `--format=s${format.bitDepth}le`,
+      `--rate=${format.sampleRate}`,
+      `--channels=${format.channels}`,
+      `--device=${source}`
+    ], { stdio: ['ignore', 'pipe', 'pipe'] });
+
+    let stderr = '';
+    audioProcess.stdout!.on('data', (chunk: Buffer) => {
+      // A process being replaced can still flush into the new buffer otherwise
+      if (audioProcess === this.process) {
+        this.write(chunk);
+      }
+    });
+    audioProcess.stderr!.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    audioProcess.on('error', (error: NodeJS.ErrnoException) => {
+      this.handleExit(audioProcess, error.code === 'ENOENT'
+        ? 'parecord is not available; install the PulseAudio utilities'
+        : error.message);
+    });
+
+    audioProcess.on('exit', (code, signal) => {
+      const reason = stderr.trim().split('\n').pop();
+      this.handleExit(audioProcess, reason || `parecord exited with ${signal || `code ${code}`}`);
+    });
+
+    this.process = audioProcess;
+  }
+
+  public stop(): void {
+    if (this.process) {
+      const audioProcess = this.process;
+      this.process = null;
+      audioProcess.kill('SIGTERM');
+    }
+    this.ring = null;
+    this.writeOffset = 0;
+    this.filledBytes = 0;
+  }
+
+  // The buffered audio, oldest first and cut to whole frames; null while nothing is buffered
+  public snapshot(): { format: RecordingFormat; data: Buffer } | null {
+    if (!this.ring || !this.format || this.filledBytes === 0) return null;
+
+    const frameBytes = this.getFrameBytes(this.format);
+    let data: Buffer;
+    if (this.filledBytes < this.ring.length) {
+      data = Buffer.from(this.ring.subarray(0, this.filledBytes));
+    } else {
+      // Full: the oldest byte is where the next write goes, which can be mid-frame
+      const ordered = Buffer.concat([this.ring.subarray(this.writeOffset), this.ring.subarray(0, this.writeOffset)]);
+      data = ordered.subarray((frameBytes - this.writeOffset % frameBytes) % frameBytes);
+    }
+
+    return { format: this.format, data: data.subarray(0, data.length - data.length % frameBytes) };
+  }
+
+  private write(chunk: Buffer): void {
+    const ring = this.ring;
+    if (!ring) return;
+
+    // Only the end of a chunk larger than the whole buffer would survive anyway; skip
+    // ahead over the rest so the write position stays where the full chunk would leave it
+    const data = chunk.length > ring.length ? chunk.subarray(chunk.length - ring.length) : chunk;
+    this.writeOffset = (this.writeOffset + chunk.length - data.length) % ring.length;
+    const untilEnd = Math.min(data.length, ring.length - this.writeOffset);
+    data.copy(ring, this.writeOffset, 0, untilEnd);
+    data.copy(ring, 0, untilEnd);
+
+    this.writeOffset = (this.writeOffset + data.length) % ring.length;
+    this.filledBytes = Math.min(ring.length, this.filledBytes + data.length);
+  }
+
+  // Exits of processes we stopped or replaced ourselves are expected and ignored
+  private handleExit(audioProcess: ChildProcess, reason: string): void {
+    if (audioProcess !== this.process) return;
+    this.process = null;
+    this.onStopped(reason);
+  }
+
+  private getFrameBytes(format: RecordingFormat): number {
+    return (format.bitDepth / 8) * format.channels;
+  }
+
+  private getCapacityBytes(format: RecordingFormat, seconds: number): number {
+    const clamped = Math.max(REPLAY_BUFFER_MIN_SECONDS, Math.min(REPLAY_BUFFER_MAX_SECONDS, seconds));
+    return Math.round(clamped * format.sampleRate) * this.getFrameBytes(format);
+  }
+}
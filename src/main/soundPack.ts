@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import { AudioClip, ClipPlayMode, ClipSource } from '../shared/types';
+import { ZipReader, ZipWriter } from './zipArchive';
+
+export const SOUND_PACK_EXTENSION = 'sbpack';
+
+// Bump when the manifest changes shape; packs from newer versions are refused
+const SOUND_PACK_FORMAT_VERSION = 1;
+const MANIFEST_ENTRY = 'manifest.json';
+
+// What an imported clip may carry; anything else in a manifest falls back to the defaults
+const CLIP_SOURCES: ClipSource[] = ['microphone', 'system', 'import', 'generated'];
+const PLAY_MODES: ClipPlayMode[] = ['cut', 'overlap', 'restart'];
+const GAIN_DB_RANGE = { min: -24, max: 12 }; // Same as the clip gain slider
+const NORMALIZATION_GAIN_DB_RANGE = { min: -60, max: 24 };
+
+// What a pack keeps of a clip; ids and paths only mean something on the exporting machine
+export interface SoundPackClip {
+  name: string;
+  file: string; // Archive entry holding the audio
+  duration: number;
+  source: ClipSource;
+  createdAt: string;
+  hotkey?: string;
+  playMode?: ClipPlayMode;
+  gainDb?: number;
+  normalizationGainDb?: number;
+  trimStart?: number;
+  trimEnd?: number;
+  fadeIn?: number;
+  fadeOut?: number;
+}
+
+export interface SoundPackManifest {
+  formatVersion: number;
+  exportedAt: string;
+  clips: SoundPackClip[]; // In board order
+}
+
+// Characters that can't appear in file names on one platform or another
+export function toSafeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim() || 'clip';
+}
+
+/**
+ * Write the clips and a manifest into a single .sbpack (a zip archive). Clips whose
+ * file is missing are left out. The pack is written next to its destination first so
+ * a failed export never leaves a truncated pack behind.
+ */
+export function writeSoundPack(clips: AudioClip[], packPath: string): { exported: AudioClip[]; skipped: AudioClip[] } {
+  const exported: AudioClip[] = [];
+  const skipped: AudioClip[] = [];
+  const manifest: SoundPackManifest = {
+    formatVersion: SOUND_PACK_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    clips: []
+  };
+
+  const tempPath = `${packPath}.tmp`;
+  const writer = new ZipWriter(tempPath);
+  try {
+    clips.forEach(clip => {
+      if (!fs.existsSync(clip.filePath)) {
+        skipped.push(clip);
+        return;
+      }
+
+      const file = `audio/${String(manifest.clips.length + 1).padStart(3, '0')}-${toSafeFileName(clip.name)}.wav`;
+      writer.addFile(file, fs.readFileSync(clip.filePath), new Date(clip.createdAt));
+      manifest.clips.push({
+        name: clip.name,
+        file,
+        duration: clip.duration,
+        source: clip.source,
+        createdAt: new Date(clip.createdAt).toISOString(),
+        hotkey: clip.hotkey,
+        playMode: clip.playMode,
+        gainDb: clip.gainDb,
+        normalizationGainDb: clip.normalizationGainDb,
+        trimStart: clip.trimStart,
+        trimEnd: clip.trimEnd,
+        fadeIn: clip.fadeIn,
+        fadeOut: clip.fadeOut
+      });
+      exported.push(clip);
+    });
+
+    writer.addFile(MANIFEST_ENTRY, Buffer.from(JSON.stringify(manifest, null, 2), 'utf8'));
+    writer.finish();
+    fs.renameSync(tempPath, packPath);
+  } catch (error) {
+    writer.close();
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+
+  return { exported, skipped };
+}
+
+function isNumberIn(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * The playback settings of a manifest clip that are safe to apply, given the duration of
+ * its audio. Manifests come from other people, so every field is checked and anything
+ * of the wrong type or out of range is left at its default.
+ */
+export function getPackClipSettings(packClip: SoundPackClip, duration: number): Pick<AudioClip,
+  'source' | 'hotkey' | 'playMode' | 'gainDb' | 'normalizationGainDb' | 'trimStart' | 'trimEnd' | 'fadeIn' | 'fadeOut'> {
+  const trimStart = isNumberIn(packClip.trimStart, 0, duration) ? packClip.trimStart : undefined;
+  const trimEnd = isNumberIn(packClip.trimEnd, (trimStart || 0) + 0.001, duration) ? packClip.trimEnd : undefined;
+  const playedLength = (trimEnd ?? duration) - (trimStart || 0);
+
+  return {
+    source: CLIP_SOURCES.includes(packClip.source) ? packClip.source : 'import',
+    hotkey: typeof packClip.hotkey === 'string' && packClip.hotkey.trim() ? packClip.hotkey.trim() : undefined,
+    playMode: PLAY_MODES.includes(packClip.playMode as ClipPlayMode) ? packClip.playMode : undefined,
+    gainDb: isNumberIn(packClip.gainDb, GAIN_DB_RANGE.min, GAIN_DB_RANGE.max) ? packClip.gainDb : undefined,
+    normalizationGainDb: isNumberIn(packClip.normalizationGainDb, NORMALIZATION_GAIN_DB_RANGE.min, NORMALIZATION_GAIN_DB_RANGE.max)
+      ? packClip.normalizationGainDb
+      : undefined,
+    trimStart,
+    trimEnd,
+    fadeIn: isNumberIn(packClip.fadeIn, 0, playedLength) ? packClip.fadeIn : undefined,
+    fadeOut: isNumberIn(packClip.fadeOut, 0, playedLength) ? packClip.fadeOut : undefined
+  };
+}
+
+// Every clip needs at least its audio entry; the other fields are checked when it is imported
+function isPackClipEntry(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && typeof (value as SoundPackClip).file === 'string';
+}
+
+// Open a pack and check its manifest; the caller reads the audio and must close the reader
+export function openSoundPack(packPath: string): { manifest: SoundPackManifest; reader: ZipReader } {
+  const reader = new ZipReader(packPath);
+  try {
+    if (!reader.has(MANIFEST_ENTRY)) {
+      throw new Error('This is not a SoundBoard pack');
+    }
+
+    const manifest = JSON.parse(reader.read(MANIFEST_ENTRY).toString('utf8')) as SoundPackManifest;
+    if (typeof manifest.formatVersion !== 'number' || !Array.isArray(manifest.clips) ||
+        !manifest.clips.every(isPackClipEntry)) {
+      throw new Error('The pack manifest is damaged');
+    }
+    if (manifest.formatVersion > SOUND_PACK_FORMAT_VERSION) {
+      throw new Error('The pack was made by a newer version of SoundBoard');
+    }
+
+    return { manifest, reader };
+  } catch (error) {
+    reader.close();
+    throw error;
+  }
+}
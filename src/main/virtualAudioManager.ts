@@ -0,0 +1,245 @@
+import { VirtualAudioComponent, VirtualAudioComponentId, VirtualAudioStatus } from '../shared/types';
+import { listPulseEntries, loadModule, unloadModule, PulseEntry } from './pulseAudio';
+
+const OUTPUT_SINK = 'soundboard-output';
+const MIC_SINK = 'virtual-mic-sink';
+const MIC_SOURCE = 'virtual-microphone-input';
+const MIC_LOOPBACK_LATENCY_MS = 30;
+const DEFAULT_MIC_NAME = 'SoundBoard Virtual Microphone';
+
+export interface VirtualAudioOptions {
+  micName: string; // Shown to Discord and other apps as the microphone's name
+  micMixSource: string | null; // Real microphone mixed into the virtual one, null for clips only
+}
+
+// One PulseAudio module of the virtual device chain, in creation order
+interface ComponentSpec {
+  id: VirtualAudioComponentId;
+  label: string;
+  module: string;
+  args: string[];
+  required: boolean;
+  // Identify an already loaded module as this component by its arguments
+  matches: (args: string) => boolean;
+  // Whether a matching module was loaded with the arguments wanted now
+  upToDate: (args: string) => boolean;
+  // A sink or source of this name may also come from the user's own PulseAudio config
+  provides?: { type: 'sinks' | 'sources'; name: string };
+}
+
+/**
+ * The same chain the setup scripts used to build, kept under the same names so
+ * existing Discord input settings keep working, plus an optional microphone feed:
+ *
+ *   clips -> soundboard-output -> loopback -> virtual-mic-sink -> virtual-microphone-input (Discord)
+ *                                 microphone -> loopback -^
+ *
+ * The microphone joins after soundboard-output so monitor loopbacks on that sink
+ * never play the user's own voice back to them.
+ */
+function getComponents(options: VirtualAudioOptions): ComponentSpec[] {
+  const micName = sanitizeDescription(options.micName) || DEFAULT_MIC_NAME;
+  const micMixSource = isSafeMicSource(options.micMixSource) ? options.micMixSource : null;
+
+  return [
+    {
+      id: 'output-sink',
+      label: 'SoundBoard-Output sink',
+      module: 'module-null-sink',
+      args: [`sink_name=${OUTPUT_SINK}`, 'sink_properties=device.description=SoundBoard-Output'],
+      required: true,
+      matches: args => hasArg(args, 'sink_name', OUTPUT_SINK),
+      upToDate: () => true,
+      provides: { type: 'sinks', name: OUTPUT_SINK }
+    },
+    {
+      id: 'mic-sink',
+      label: 'Virtual microphone sink',
+      module: 'module-null-sink',
+      args: [`sink_name=${MIC_SINK}`, 'sink_properties=device.description=SoundBoard-Virtual-Microphone-Sink'],
+      required: true,
+      matches: args => hasArg(args, 'sink_name', MIC_SINK),
+      upToDate: () => true,
+      provides: { type: 'sinks', name: MIC_SINK }
+    },
+    {
+      id: 'mic-loopback',
+      label: 'Clips to virtual microphone loopback',
+      module: 'module-loopback',
+      args: [`source=${OUTPUT_SINK}.monitor`, `sink=${MIC_SINK}`, `latency_msec=${MIC_LOOPBACK_LATENCY_MS}`],
+      required: true,
+      matches: args => hasArg(args, 'source', `${OUTPUT_SINK}.monitor`) && hasArg(args, 'sink', MIC_SINK),
+      upToDate: () => true
+    },
+    {
+      id: 'mic-input-loopback',
+      label: micMixSource ? `Microphone (${micMixSource}) to virtual microphone` : 'Microphone to virtual microphone',
+      module: 'module-loopback',
+      args: [`source=${micMixSource}`, `sink=${MIC_SINK}`, `latency_msec=${MIC_LOOPBACK_LATENCY_MS}`, 'source_dont_move=true'],
+      required: !!micMixSource,
+      matches: isMicInputLoopback,
+      upToDate: args => !!micMixSource && hasArg(args, 'source', micMixSource)
+    },
+    {
+      id: 'mic-source',
+      label: `${micName} source`,
+      module: 'module-remap-source',
+      args: [
+        `source_name=${MIC_SOURCE}`,
+        `master=${MIC_SINK}.monitor`,
+        `source_properties='device.description="${micName}"'`
+      ],
+      required: true,
+      matches: args => hasArg(args, 'source_name', MIC_SOURCE),
+      // Sources created by the setup scripts carry the old hyphenated name
+      upToDate: args => args.includes(`device.description="${micName}"`)
+    }
+  ];
+}
+
+// Quotes and backslashes would break out of the module argument quoting
+function sanitizeDescription(name: string): string {
+  return name.replace(/["'\\]/g, '').trim();
+}
+
+// Feeding the virtual microphone (or a sink behind it) back into itself would loop forever
+function isSafeMicSource(source: string | null): source is string {
+  if (!source) return false;
+  if (source === MIC_SOURCE || source === `${MIC_SINK}.monitor` || source === `${OUTPUT_SINK}.monitor`) {
+    console.log(`Not mixing ${source} into the virtual microphone, it would feed back into itself`);
+    return false;
+  }
+  return true;
+}
+
+// Modules only the old shell scripts created; repair and remove clear them out
+function isLegacyModule(entry: PulseEntry): boolean {
+  const args = getModuleArgs(entry);
+  return (entry.name === 'module-loopback' && hasArg(args, 'source', `${OUTPUT_SINK}.monitor`) && hasArg(args, 'sink', '@DEFAULT_SINK@')) ||
+    hasArg(args, 'sink_name', 'discord-input') ||
+    (entry.name === 'module-loopback' && hasArg(args, 'sink', 'discord-input'));
+}
+
+// Any loopback into the virtual microphone other than the clips one carries a real microphone
+function isMicInputLoopback(args: string): boolean {
+  return hasArg(args, 'sink', MIC_SINK) && !hasArg(args, 'source', `${OUTPUT_SINK}.monitor`);
+}
+
+function getModuleArgs(entry: PulseEntry): string {
+  return entry.fields.slice(2).join('\t');
+}
+
+// key=value, key="value" or key='value' as a whole argument
+function hasArg(args: string, key: string, value: string): boolean {
+  const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|\\s)${key}=(["']?)${escaped}\\2(\\s|$)`).test(args);
+}
+
+export function inspectVirtualAudio(options: VirtualAudioOptions): VirtualAudioStatus {
+  let modules: PulseEntry[];
+  let sinks: PulseEntry[];
+  let sources: PulseEntry[];
+  try {
+    modules = listPulseEntries('modules');
+    sinks = listPulseEntries('sinks');
+    sources = listPulseEntries('sources');
+  } catch (error) {
+    return {
+      available: false,
+      healthy: false,
+      components: [],
+      legacyModuleIds: [],
+      error: 'PulseAudio is not reachable through pactl'
+    };
+  }
+
+  const components: VirtualAudioComponent[] = getComponents(options).map(spec => {
+    const matching = modules.filter(entry => entry.name === spec.module && spec.matches(getModuleArgs(entry)));
+    const moduleIds = matching.map(entry => entry.index);
+    const external = moduleIds.length === 0 && !!spec.provides &&
+      (spec.provides.type === 'sinks' ? sinks : sources).some(entry => entry.name === spec.provides!.name);
+
+    return {
+      id: spec.id,
+      label: spec.label,
+      required: spec.required,
+      present: moduleIds.length > 0 || external,
+      stale: matching.some(entry => !spec.upToDate(getModuleArgs(entry))),
+      moduleIds
+    };
+  });
+
+  const legacyModuleIds = modules.filter(isLegacyModule).map(entry => entry.index);
+
+  return {
+    available: true,
+    healthy: components.every(component => component.required
+      ? component.present && !component.stale && component.moduleIds.length <= 1
+      : component.moduleIds.length === 0),
+    components,
+    legacyModuleIds
+  };
+}
+
+// Create whatever is missing, replace modules loaded with outdated arguments and drop
+// optional links that are switched off; running it again on a complete chain changes nothing
+export function ensureVirtualAudio(options: VirtualAudioOptions): VirtualAudioStatus {
+  const status = inspectVirtualAudio(options);
+  if (!status.available) return status;
+
+  getComponents(options).forEach(spec => {
+    const component = status.components.find(c => c.id === spec.id);
+    if (!component) return;
+
+    if (!spec.required || component.stale) {
+      component.moduleIds.forEach(moduleId => unloadQuietly(moduleId));
+    }
+    if (spec.required && (!component.present || component.stale)) {
+      const moduleId = loadModule(spec.module, spec.args);
+      console.log(`Created ${spec.label} (module ${moduleId})`);
+    }
+  });
+
+  return inspectVirtualAudio(options);
+}
+
+// Drop duplicate and script-era modules, then fill in anything missing
+export function repairVirtualAudio(options: VirtualAudioOptions): VirtualAudioStatus {
+  const status = inspectVirtualAudio(options);
+  if (!status.available) return status;
+
+  const extraModuleIds = status.components.flatMap(component => component.moduleIds.slice(1));
+  [...extraModuleIds, ...status.legacyModuleIds].forEach(moduleId => unloadQuietly(moduleId));
+
+  return ensureVirtualAudio(options);
+}
+
+// Unload only modules that belong to the chain, last link first
+export function removeVirtualAudio(options: VirtualAudioOptions): VirtualAudioStatus {
+  const status = inspectVirtualAudio(options);
+  if (!status.available) return status;
+
+  status.legacyModuleIds.forEach(moduleId => unloadQuietly(moduleId));
+  [...status.components].reverse().forEach(component => {
+    component.moduleIds.forEach(moduleId => unloadQuietly(moduleId));
+  });
+
+  return inspectVirtualAudio(options);
+}
+
+// The module carrying the real microphone into the virtual one, if it is loaded
+export function findMicInputLoopbackModule(): string | null {
+  const loopback = listPulseEntries('modules')
+    .find(entry => entry.name === 'module-loopback' && isMicInputLoopback(getModuleArgs(entry)));
+  return loopback ? loopback.index : null;
+}
+
+// Unloading a sink also unloads modules attached to it, so an id can vanish mid-way
+function unloadQuietly(moduleId: string): void {
+  try {
+    unloadModule(moduleId);
+    console.log(`Unloaded virtual audio module ${moduleId}`);
+  } catch (error) {
+    console.log(`Module ${moduleId} was already gone`);
+  }
+}
@@ -0,0 +1,266 @@
+import * as fs from 'fs';
+import { Transform } from 'stream';
+
+// PCM layout of a WAV file as described by its fmt chunk
+export interface WavFormat {
+  audioFormat: number; // 1 = integer PCM, 3 = IEEE float
+  channels: number;
+  sampleRate: number;
+  bitDepth: number;
+}
+
+export interface DecodedWav {
+  format: WavFormat;
+  channels: Float32Array[];
+  frameCount: number;
+}
+
+export interface WavInfo {
+  format: WavFormat;
+  dataOffset: number;
+  dataLength: number;
+  duration: number; // seconds
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Parse the RIFF header of a WAV buffer and locate its data chunk; when the buffer only
+// holds the start of the file, fileLength is the size of the whole file
+export function parseWavHeader(buffer: Buffer, fileLength = buffer.length): WavInfo {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let audioFormat = buffer.readUInt16LE(chunkStart);
+      if (audioFormat === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26) {
+        // The real format is the first two bytes of the sub-format GUID
+        audioFormat = buffer.readUInt16LE(chunkStart + 24);
+      }
+      format = {
+        audioFormat,
+        channels: buffer.readUInt16LE(chunkStart + 2),
+        sampleRate: buffer.readUInt32LE(chunkStart + 4),
+        bitDepth: buffer.readUInt16LE(chunkStart + 14)
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk found before fmt chunk');
+      }
+      // Recorders that are killed mid-write leave a zero or oversized length behind
+      const available = fileLength - chunkStart;
+      const dataLength = chunkSize === 0 || chunkSize > available ? available : chunkSize;
+      const bytesPerFrame = (format.bitDepth / 8) * format.channels;
+      return {
+        format,
+        dataOffset: chunkStart,
+        dataLength,
+        duration: bytesPerFrame > 0 ? dataLength / bytesPerFrame / format.sampleRate : 0
+      };
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+// Large enough for the fmt chunk and the metadata chunks editors put in front of the data
+const HEADER_READ_BYTES = 64 * 1024;
+
+// Reads only the start of the file, the data chunk itself is not loaded
+export function readWavInfo(filePath: string): WavInfo {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const fileLength = fs.fstatSync(fd).size;
+    const buffer = Buffer.alloc(Math.min(fileLength, HEADER_READ_BYTES));
+    fs.readSync(fd, buffer, 0, buffer.length, 0);
+    return parseWavHeader(buffer, fileLength);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function readSample(buffer: Buffer, offset: number, format: WavFormat): number {
+  if (format.audioFormat === WAVE_FORMAT_IEEE_FLOAT) {
+    return format.bitDepth === 64 ? buffer.readDoubleLE(offset) : buffer.readFloatLE(offset);
+  }
+  switch (format.bitDepth) {
+    case 8: return (buffer.readUInt8(offset) - 128) / 128;
+    case 16: return buffer.readInt16LE(offset) / 32768;
+    case 24: return buffer.readIntLE(offset, 3) / 8388608;
+    case 32: return buffer.readInt32LE(offset) / 2147483648;
+    default: throw new Error(`Unsupported WAV bit depth: ${format.bitDepth}`);
+  }
+}
+
+// Decode a WAV file into one Float32Array per channel, normalised to [-1, 1]
+export function readWavSamples(filePath: string): DecodedWav {
+  const buffer = fs.readFileSync(filePath);
+  const { format, dataOffset, dataLength } = parseWavHeader(buffer);
+
+  if (format.audioFormat !== WAVE_FORMAT_PCM && format.audioFormat !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new Error(`Unsupported WAV encoding: ${format.audioFormat}`);
+  }
+
+  const bytesPerSample = format.bitDepth / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * format.channels));
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < format.channels; channel++) {
+    channels.push(new Float32Array(frameCount));
+  }
+
+  let offset = dataOffset;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < format.channels; channel++) {
+      channels[channel][frame] = readSample(buffer, offset, format);
+      offset += bytesPerSample;
+    }
+  }
+
+  return { format, channels, frameCount };
+}
+
+// Loudest sample in each of bucketCount equal slices of the audio, across all channels
+export function getWaveformPeaks(decoded: DecodedWav, bucketCount: number): number[] {
+  const peaks: number[] = [];
+  const framesPerBucket = decoded.frameCount / bucketCount;
+
+  for (let bucket = 0; bucket < bucketCount; bucket++) {
+    const start = Math.floor(bucket * framesPerBucket);
+    const end = Math.min(decoded.frameCount, Math.max(start + 1, Math.floor((bucket + 1) * framesPerBucket)));
+    let peak = 0;
+    decoded.channels.forEach(channel => {
+      for (let frame = start; frame < end; frame++) {
+        const level = Math.abs(channel[frame]);
+        if (level > peak) peak = level;
+      }
+    });
+    peaks.push(Math.round(Math.min(1, peak) * 1000) / 1000);
+  }
+  return peaks;
+}
+
+// The level is measured (RMS) over short slices, and only a run of loud slices counts as
+// sound so a lone click or button press at either end does not
+const LEVEL_WINDOW_SECONDS = 0.01;
+const MIN_SOUND_WINDOWS = 3;
+
+// Where the audio first and last gets louder than thresholdDb, in seconds; null when it never does
+export function findSoundBounds(decoded: DecodedWav, thresholdDb: number): { start: number; end: number } | null {
+  const windowFrames = Math.max(1, Math.round(decoded.format.sampleRate * LEVEL_WINDOW_SECONDS));
+  const threshold = dbToGain(thresholdDb);
+  const loud: boolean[] = [];
+
+  for (let start = 0; start < decoded.frameCount; start += windowFrames) {
+    const end = Math.min(decoded.frameCount, start + windowFrames);
+    let sum = 0;
+    decoded.channels.forEach(channel => {
+      for (let frame = start; frame < end; frame++) {
+        sum += channel[frame] * channel[frame];
+      }
+    });
+    loud.push(Math.sqrt(sum / ((end - start) * decoded.channels.length)) >= threshold);
+  }
+
+  const run = Math.min(MIN_SOUND_WINDOWS, loud.length);
+  const isRun = (first: number) => loud.slice(first, first + run).every(Boolean);
+  let firstWindow = -1;
+  for (let index = 0; index + run <= loud.length; index++) {
+    if (isRun(index)) {
+      firstWindow = index;
+      break;
+    }
+  }
+  if (firstWindow < 0) return null;
+
+  let lastWindow = firstWindow + run - 1;
+  for (let index = loud.length - run; index >= firstWindow; index--) {
+    if (isRun(index)) {
+      lastWindow = index + run - 1;
+      break;
+    }
+  }
+
+  return {
+    start: (firstWindow * windowFrames) / decoded.format.sampleRate,
+    end: Math.min(decoded.frameCount, (lastWindow + 1) * windowFrames) / decoded.format.sampleRate
+  };
+}
+
+// Write PCM data under a plain 44-byte header, replacing any existing file atomically
+export function writeWavFile(filePath: string, format: WavFormat, data: Buffer): void {
+  const blockAlign = (format.bitDepth / 8) * format.channels;
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(format.audioFormat, 20);
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(format.bitDepth, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+
+  const tempPath = `${filePath}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, header);
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+}
+
+// Cut a WAV file down to the audio between two points; the samples are copied, not re-encoded
+export function trimWavFile(filePath: string, startSeconds: number, endSeconds: number): WavInfo {
+  const buffer = fs.readFileSync(filePath);
+  const { format, dataOffset, dataLength } = parseWavHeader(buffer);
+  const blockAlign = (format.bitDepth / 8) * format.channels;
+  const totalFrames = Math.floor(dataLength / blockAlign);
+
+  const endFrame = Math.max(1, Math.min(totalFrames, Math.round(endSeconds * format.sampleRate)));
+  const startFrame = Math.max(0, Math.min(endFrame - 1, Math.round(startSeconds * format.sampleRate)));
+  writeWavFile(filePath, format, buffer.subarray(dataOffset + startFrame * blockAlign, dataOffset + endFrame * blockAlign));
+
+  return readWavInfo(filePath);
+}
+
+// Turns 32-bit little-endian PCM into packed 24-bit by dropping the low byte of each sample,
+// for capture tools that only pad 24-bit audio out to four bytes
+export function createS32ToS24Transform(): Transform {
+  let pending = Buffer.alloc(0);
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const input = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+      const sampleCount = Math.floor(input.length / 4);
+      const output = Buffer.alloc(sampleCount * 3);
+      for (let i = 0; i < sampleCount; i++) {
+        input.copy(output, i * 3, i * 4 + 1, i * 4 + 4);
+      }
+      pending = Buffer.from(input.subarray(sampleCount * 4));
+      callback(null, output);
+    }
+  });
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
@@ -0,0 +1,275 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP_VERSION = 20;
+const FLAG_UTF8_NAMES = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// Largest entry read back; well above any clip, low enough that a hostile archive can't exhaust memory
+const MAX_ENTRY_SIZE = 512 * 1024 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date as stored in zip headers
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  headerOffset: number;
+}
+
+/**
+ * Writes a plain zip archive one file at a time. Entries are stored uncompressed, which
+ * costs little for WAV audio and keeps only one file in memory at a time.
+ */
+export class ZipWriter {
+  private fd: number;
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+
+  constructor(filePath: string) {
+    this.fd = fs.openSync(filePath, 'w');
+  }
+
+  public addFile(name: string, data: Buffer, modified = new Date()): void {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const { time, date } = toDosDateTime(modified);
+    const entry: ZipEntry = { name, method: METHOD_STORED, crc: crc32(data), compressedSize: data.length, size: data.length, headerOffset: this.offset };
+    if (this.offset + LOCAL_HEADER_SIZE + nameBuffer.length + data.length > 0xffffffff) {
+      throw new Error('The archive would be larger than 4 GB');
+    }
+
+    const header = Buffer.alloc(LOCAL_HEADER_SIZE);
+    header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    header.writeUInt16LE(ZIP_VERSION, 4);
+    header.writeUInt16LE(FLAG_UTF8_NAMES, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(nameBuffer.length, 26);
+    header.writeUInt16LE(0, 28);
+
+    this.write(header);
+    this.write(nameBuffer);
+    this.write(data);
+    this.entries.push(entry);
+  }
+
+  // Write the central directory and close the file
+  public finish(): void {
+    const directoryOffset = this.offset;
+    const { time, date } = toDosDateTime(new Date());
+
+    this.entries.forEach(entry => {
+      const nameBuffer = Buffer.from(entry.name, 'utf8');
+      const header = Buffer.alloc(CENTRAL_HEADER_SIZE);
+      header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+      header.writeUInt16LE(ZIP_VERSION, 4);
+      header.writeUInt16LE(ZIP_VERSION, 6);
+      header.writeUInt16LE(FLAG_UTF8_NAMES, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(time, 12);
+      header.writeUInt16LE(date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(nameBuffer.length, 28);
+      header.writeUInt32LE(entry.headerOffset, 42);
+      this.write(header);
+      this.write(nameBuffer);
+    });
+
+    const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+    end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    this.write(end);
+
+    fs.fsyncSync(this.fd);
+    this.close();
+  }
+
+  public close(): void {
+    if (this.fd < 0) return;
+    fs.closeSync(this.fd);
+    this.fd = -1;
+  }
+
+  private write(buffer: Buffer): void {
+    fs.writeSync(this.fd, buffer);
+    this.offset += buffer.length;
+  }
+}
+
+// Reads stored and deflated entries of a zip archive; zip64 archives are not supported
+export class ZipReader {
+  private fd: number;
+  private fileSize = 0;
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(filePath: string) {
+    this.fd = fs.openSync(filePath, 'r');
+    try {
+      this.readCentralDirectory();
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  public get names(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  public has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  public read(name: string): Buffer {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`${name} is not in the archive`);
+    }
+    if (entry.size > MAX_ENTRY_SIZE || entry.compressedSize > MAX_ENTRY_SIZE) {
+      throw new Error(`${name} is too large to import`);
+    }
+    if (entry.method === METHOD_STORED && entry.compressedSize !== entry.size) {
+      throw new Error(`${name} is corrupt`);
+    }
+
+    const header = this.readAt(entry.headerOffset, LOCAL_HEADER_SIZE);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Damaged archive entry ${name}`);
+    }
+    const dataOffset = entry.headerOffset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+    // Sizes come straight from the archive; don't allocate for data that isn't there
+    if (dataOffset + entry.compressedSize > this.fileSize) {
+      throw new Error(`${name} is corrupt`);
+    }
+    const raw = this.readAt(dataOffset, entry.compressedSize);
+
+    let data: Buffer;
+    if (entry.method === METHOD_STORED) {
+      data = raw;
+    } else if (entry.method === METHOD_DEFLATED) {
+      // The declared size caps the output, so a small entry can't inflate without bound
+      try {
+        data = zlib.inflateRawSync(raw, { maxOutputLength: Math.max(1, entry.size) });
+      } catch (error) {
+        throw new Error(`${name} is corrupt`);
+      }
+    } else {
+      throw new Error(`${name} uses an unsupported compression method (${entry.method})`);
+    }
+
+    if (data.length !== entry.size || crc32(data) !== entry.crc) {
+      throw new Error(`${name} is corrupt`);
+    }
+    return data;
+  }
+
+  public close(): void {
+    if (this.fd < 0) return;
+    fs.closeSync(this.fd);
+    this.fd = -1;
+  }
+
+  private readCentralDirectory(): void {
+    const fileSize = fs.fstatSync(this.fd).size;
+    this.fileSize = fileSize;
+    const tailSize = Math.min(fileSize, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_SIZE);
+    const tail = this.readAt(fileSize - tailSize, tailSize);
+
+    let endOffset = -1;
+    for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        endOffset = i;
+        break;
+      }
+    }
+    if (endOffset < 0) {
+      throw new Error('Not a zip archive');
+    }
+
+    const entryCount = tail.readUInt16LE(endOffset + 10);
+    const directorySize = tail.readUInt32LE(endOffset + 12);
+    const directoryOffset = tail.readUInt32LE(endOffset + 16);
+    if (directoryOffset === 0xffffffff || entryCount === 0xffff) {
+      throw new Error('Zip64 archives are not supported');
+    }
+    if (directoryOffset + directorySize > fileSize) {
+      throw new Error('Damaged zip central directory');
+    }
+
+    const directory = this.readAt(directoryOffset, directorySize);
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new Error('Damaged zip central directory');
+      }
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const name = directory.toString('utf8', offset + CENTRAL_HEADER_SIZE, offset + CENTRAL_HEADER_SIZE + nameLength);
+
+      this.entries.set(name, {
+        name,
+        method: directory.readUInt16LE(offset + 10),
+        crc: directory.readUInt32LE(offset + 16),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        size: directory.readUInt32LE(offset + 24),
+        headerOffset: directory.readUInt32LE(offset + 42)
+      });
+      offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+    }
+  }
+
+  private readAt(position: number, length: number): Buffer {
+    const buffer = Buffer.alloc(length);
+    const bytesRead = fs.readSync(this.fd, buffer, 0, length, position);
+    if (bytesRead !== length) {
+      throw new Error('Unexpected end of archive');
+    }
+    return buffer;
+  }
+}
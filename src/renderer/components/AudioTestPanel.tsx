@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Mic, MicOff, Play, Square, Volume2, AlertCircle, CheckCircle } from 'lucide-react';
 import { useAudioManager } from '../hooks/useAudioManager';
@@ -27,6 +27,12 @@ const AudioTestPanel: React.FC = () => {
     devices: 'pending'
   });
 
+  // Polling callbacks need the latest state, not the one captured when the test started
+  const playbackStateRef = useRef(playbackState);
+  useEffect(() => {
+    playbackStateRef.current = playbackState;
+  }, [playbackState]);
+
   const addLog = (message: string) => {
     const timestamp = new Date().toLocaleTimeString();
     setTestLogs(prev => [...prev, `[${timestamp}] ${message}`]);
@@ -76,23 +82,52 @@ const AudioTestPanel: React.FC = () => {
       await playClip(testClip.id);
       addLog('Playback started successfully');
       
-      // Wait for playback to finish or timeout
-      const timeout = setTimeout(() => {
-        addLog('Playback test timed out');
-        setTestResults(prev => ({ ...prev, playback: 'fail' }));
-      }, (testClip.duration + 2) * 1000);
-      
-      // Listen for playback state changes
+      // Playback must keep advancing and reach the end of the clip
+      const stallLimitMs = 2000;
+      const endToleranceSeconds = 0.25;
+      let lastProgress = -1;
+      let remaining = Infinity;
+      let lastAdvance = Date.now();
+      let seenVoice = false;
+
       const checkPlayback = () => {
-        if (!playbackState.isPlaying) {
-          clearTimeout(timeout);
-          addLog('Playback completed successfully');
+        const voice = playbackStateRef.current.voices.find(v => v.clipId === testClip.id);
+
+        if (voice) {
+          seenVoice = true;
+          if (voice.progress > lastProgress) {
+            lastProgress = voice.progress;
+            remaining = voice.duration - voice.position;
+            lastAdvance = Date.now();
+          } else if (Date.now() - lastAdvance > stallLimitMs) {
+            addLog(`Playback stalled at ${Math.round(lastProgress * 100)}%`);
+            setTestResults(prev => ({ ...prev, playback: 'fail' }));
+            return;
+          }
+          setTimeout(checkPlayback, 100);
+          return;
+        }
+
+        if (!seenVoice) {
+          if (Date.now() - lastAdvance > stallLimitMs) {
+            addLog('Playback never reported any progress');
+            setTestResults(prev => ({ ...prev, playback: 'fail' }));
+            return;
+          }
+          setTimeout(checkPlayback, 100);
+          return;
+        }
+
+        // The voice ended; it should have been close to the end when last reported
+        if (remaining <= endToleranceSeconds) {
+          addLog(`Playback completed successfully (last progress ${Math.round(lastProgress * 100)}%)`);
           setTestResults(prev => ({ ...prev, playback: 'pass' }));
         } else {
-          setTimeout(checkPlayback, 100);
+          addLog(`Playback ended early at ${Math.round(lastProgress * 100)}%`);
+          setTestResults(prev => ({ ...prev, playback: 'fail' }));
         }
       };
-      
+
       setTimeout(checkPlayback, 100);
       
     } catch (error) {
@@ -1,31 +1,89 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Play, Trash2, Edit3, Volume2, Keyboard } from 'lucide-react';
-import { AudioClip } from '../../shared/types';
+import { Play, Pause, Square, Trash2, Edit3, Volume2, Keyboard, Layers, SlidersHorizontal, Mic, Monitor, Download, Sparkles, AlertTriangle, Scissors } from 'lucide-react';
+import { AudioClip, ClipPlayMode, ClipSource, PlaybackVoice, RecordingFormat } from '../../shared/types';
 
 interface ClipCardProps {
   clip: AudioClip;
   isPlaying: boolean;
+  voices: PlaybackVoice[];
+  isMissing?: boolean; // The clip's file was not found by the last library scan
   onPlay: (clipId: string) => void;
+  onStop: (clipId: string) => void;
+  onPause: (clipId: string) => void;
+  onResume: (clipId: string) => void;
+  onSeek: (clipId: string, position: number) => void;
   onDelete: (clipId: string) => void;
   onRename: (clipId: string, name: string) => void;
+  onUpdate: (clipId: string, updates: Partial<AudioClip>) => void;
+  onEditTrim: (clipId: string) => void;
 }
 
+const playModeOptions: { value: ClipPlayMode; label: string }[] = [
+  { value: 'cut', label: 'Cut others' },
+  { value: 'overlap', label: 'Overlap' },
+  { value: 'restart', label: 'Restart self' }
+];
+
+export const clipSourceOptions: { value: ClipSource; label: string; icon: React.ElementType }[] = [
+  { value: 'microphone', label: 'Microphone', icon: Mic },
+  { value: 'system', label: 'System audio', icon: Monitor },
+  { value: 'import', label: 'Imported', icon: Download },
+  { value: 'generated', label: 'Generated', icon: Sparkles }
+];
+
 const ClipCard: React.FC<ClipCardProps> = ({
   clip,
   isPlaying,
+  voices,
+  isMissing,
   onPlay,
+  onStop,
+  onPause,
+  onResume,
+  onSeek,
   onDelete,
-  onRename
+  onRename,
+  onUpdate,
+  onEditTrim
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(clip.name);
   const [showHotkeyModal, setShowHotkeyModal] = useState(false);
+  // While dragging, the slider shows the drag position rather than incoming updates
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  // Gain being dragged; saved once the slider is let go, every save rewrites the library
+  const [dragGainDb, setDragGainDb] = useState<number | null>(null);
+
+  // The progress bar follows the most recently started voice
+  const latestVoice = voices.reduce<PlaybackVoice | null>(
+    (latest, voice) => (!latest || voice.startTime > latest.startTime ? voice : latest),
+    null
+  );
+  const isPaused = voices.length > 0 && voices.every(voice => voice.paused);
+  const sourceOption = clipSourceOptions.find(option => option.value === clip.source);
 
   const handlePlay = () => {
     onPlay(clip.id);
   };
 
+  const handleStop = () => {
+    onStop(clip.id);
+  };
+
+  const handlePauseToggle = () => {
+    if (isPaused) {
+      onResume(clip.id);
+    } else {
+      onPause(clip.id);
+    }
+  };
+
+  const handleScrub = (position: number) => {
+    setScrubPosition(position);
+    onSeek(clip.id, position);
+  };
+
   const handleDelete = () => {
     if (window.confirm(`Are you sure you want to delete "${clip.name}"?`)) {
       onDelete(clip.id);
@@ -58,6 +116,27 @@ const ClipCard: React.FC<ClipCardProps> = ({
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  // Playback only covers the part between the trim points
+  const isTrimmed = clip.trimStart !== undefined || clip.trimEnd !== undefined;
+  const playedDuration = Math.max(0, (clip.trimEnd ?? clip.duration) - (clip.trimStart || 0));
+
+  const formatRecordedFormat = (format: RecordingFormat): string => {
+    const channels = format.channels === 1 ? 'mono' : format.channels === 2 ? 'stereo' : `${format.channels} channels`;
+    return `${format.sampleRate / 1000} kHz, ${format.bitDepth}-bit, ${channels}`;
+  };
+
+  const commitGain = () => {
+    if (dragGainDb === null) return;
+    if (dragGainDb !== (clip.gainDb || 0)) {
+      onUpdate(clip.id, { gainDb: dragGainDb });
+    }
+    setDragGainDb(null);
+  };
+
+  const formatGain = (gainDb: number): string => {
+    return `${gainDb > 0 ? '+' : ''}${gainDb.toFixed(1)} dB`;
+  };
+
   const formatDate = (date: Date): string => {
     try {
       // Ensure date is valid
@@ -124,6 +203,14 @@ const ClipCard: React.FC<ClipCardProps> = ({
               <Edit3 className="w-3 h-3" />
             </button>
             
+            <button
+              onClick={() => onEditTrim(clip.id)}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+              title="Trim and fade"
+            >
+              <Scissors className="w-3 h-3" />
+            </button>
+
             <button
               onClick={handleDelete}
               className="p-1 text-gray-400 hover:text-red-500 transition-colors"
@@ -136,13 +223,88 @@ const ClipCard: React.FC<ClipCardProps> = ({
 
         {/* Duration and Date */}
         <div className="flex items-center justify-between mb-4 text-xs text-gray-500 dark:text-gray-400">
-          <div className="flex items-center space-x-1">
-            <Volume2 className="w-3 h-3" />
-            <span>{formatDuration(clip.duration)}</span>
+          <div className="flex items-center space-x-2">
+            <div className="flex items-center space-x-1">
+              {isTrimmed ? <Scissors className="w-3 h-3" /> : <Volume2 className="w-3 h-3" />}
+              <span title={isTrimmed ? `Trimmed from ${formatDuration(clip.duration)}` : undefined}>
+                {formatDuration(playedDuration)}
+              </span>
+            </div>
+            {sourceOption && (
+              <span
+                className="inline-flex items-center space-x-1 px-1.5 py-0.5 bg-gray-100 dark:bg-gray-700 rounded"
+                title={`Source: ${sourceOption.label}${clip.recordedFormat ? ` (${formatRecordedFormat(clip.recordedFormat)})` : ''}`}
+              >
+                <sourceOption.icon className="w-3 h-3" />
+                <span>{sourceOption.label}</span>
+              </span>
+            )}
+            {isMissing && (
+              <span
+                className="inline-flex items-center space-x-1 px-1.5 py-0.5 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded"
+                title={`File not found: ${clip.filePath}`}
+              >
+                <AlertTriangle className="w-3 h-3" />
+                <span>Missing</span>
+              </span>
+            )}
           </div>
           <span>{formatDate(clip.createdAt)}</span>
         </div>
 
+        {/* Play mode */}
+        <div className="flex items-center space-x-2 mb-3 text-xs text-gray-500 dark:text-gray-400">
+          <Layers className="w-3 h-3" />
+          <select
+            value={clip.playMode || 'cut'}
+            onChange={(e) => onUpdate(clip.id, { playMode: e.target.value as ClipPlayMode })}
+            className="flex-1 bg-transparent border border-gray-200 dark:border-gray-600 rounded px-1 py-0.5 text-xs"
+            title="What happens to other clips when this one is played"
+          >
+            {playModeOptions.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Clip gain */}
+        <div className="flex items-center space-x-2 mb-3 text-xs text-gray-500 dark:text-gray-400">
+          <SlidersHorizontal className="w-3 h-3" />
+          <input
+            type="range"
+            min="-24"
+            max="12"
+            step="0.5"
+            value={dragGainDb ?? clip.gainDb ?? 0}
+            onChange={(e) => setDragGainDb(parseFloat(e.target.value))}
+            onPointerUp={commitGain}
+            onKeyUp={commitGain}
+            onBlur={commitGain}
+            onDoubleClick={() => onUpdate(clip.id, { gainDb: 0 })}
+            className="flex-1 h-1 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+            title="Clip gain (double-click to reset)"
+          />
+          <span className="w-14 text-right font-mono">{formatGain(dragGainDb ?? clip.gainDb ?? 0)}</span>
+        </div>
+
+        {/* Loudness normalization, on top of the clip gain */}
+        {clip.normalizationGainDb !== undefined && (
+          <div className="flex items-center justify-between -mt-2 mb-3 pl-5 text-xs text-gray-400 dark:text-gray-500">
+            <span title={clip.loudness ? `Measured ${clip.loudness.integratedLufs} LUFS, peak ${clip.loudness.peakDb} dBFS` : undefined}>
+              Normalized {formatGain(clip.normalizationGainDb)}
+            </span>
+            <button
+              onClick={() => onUpdate(clip.id, { normalizationGainDb: undefined })}
+              className="hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+              title="Play at the recorded level again"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
         {/* Hotkey indicator */}
         {clip.hotkey && (
           <div className="mb-3">
@@ -153,40 +315,65 @@ const ClipCard: React.FC<ClipCardProps> = ({
           </div>
         )}
 
-        {/* Play Button */}
-        <motion.button
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          onClick={handlePlay}
-          disabled={isPlaying}
-          className={`
-            w-full py-2 px-4 rounded-lg font-medium transition-all duration-200
-            focus:outline-none focus:ring-2 focus:ring-offset-2
-            ${isPlaying
-              ? 'bg-primary-400 text-white cursor-not-allowed'
-              : 'bg-primary-600 hover:bg-primary-700 text-white focus:ring-primary-500'
-            }
-          `}
-        >
-          <div className="flex items-center justify-center space-x-2">
-            {isPlaying ? (
-              <>
-                <motion.div
-                  animate={{ rotate: 360 }}
-                  transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
-                >
-                  <Volume2 className="w-4 h-4" />
-                </motion.div>
-                <span>Playing...</span>
-              </>
-            ) : (
-              <>
-                <Play className="w-4 h-4" />
-                <span>Play</span>
-              </>
-            )}
-          </div>
-        </motion.button>
+        {/* Play / Stop Buttons */}
+        <div className="flex items-center space-x-2">
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handlePlay}
+            className={`
+              flex-1 py-2 px-4 rounded-lg font-medium transition-all duration-200
+              focus:outline-none focus:ring-2 focus:ring-offset-2
+              ${isPlaying
+                ? 'bg-primary-400 hover:bg-primary-500 text-white focus:ring-primary-400'
+                : 'bg-primary-600 hover:bg-primary-700 text-white focus:ring-primary-500'
+              }
+            `}
+          >
+            <div className="flex items-center justify-center space-x-2">
+              {isPlaying ? (
+                <>
+                  <motion.div
+                    animate={{ rotate: 360 }}
+                    transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+                  >
+                    <Volume2 className="w-4 h-4" />
+                  </motion.div>
+                  <span>Playing...</span>
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4" />
+                  <span>Play</span>
+                </>
+              )}
+            </div>
+          </motion.button>
+
+          {isPlaying && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handlePauseToggle}
+              className="py-2 px-3 rounded-lg bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 transition-colors"
+              title={isPaused ? 'Resume this clip' : 'Pause this clip'}
+            >
+              {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+            </motion.button>
+          )}
+
+          {isPlaying && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleStop}
+              className="py-2 px-3 rounded-lg bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 transition-colors"
+              title="Stop this clip"
+            >
+              <Square className="w-4 h-4" />
+            </motion.button>
+          )}
+        </div>
 
         {/* Playing indicator */}
         <AnimatePresence>
@@ -199,12 +386,31 @@ const ClipCard: React.FC<ClipCardProps> = ({
             >
               <div className="flex items-center space-x-2 text-primary-600 dark:text-primary-400">
                 <motion.div
-                  animate={{ scale: [1, 1.2, 1] }}
-                  transition={{ duration: 1, repeat: Infinity }}
+                  animate={isPaused ? { scale: 1 } : { scale: [1, 1.2, 1] }}
+                  transition={{ duration: 1, repeat: isPaused ? 0 : Infinity }}
                   className="w-2 h-2 bg-primary-500 rounded-full"
                 />
-                <span className="text-xs font-medium">Now Playing</span>
+                <span className="text-xs font-medium">
+                  {isPaused ? 'Paused' : 'Now Playing'}{voices.length > 1 ? ` (×${voices.length})` : ''}
+                </span>
+                {latestVoice && (
+                  <span className="ml-auto text-xs font-mono text-gray-500 dark:text-gray-400">
+                    {formatDuration(scrubPosition ?? latestVoice.position)} / {formatDuration(latestVoice.duration || playedDuration)}
+                  </span>
+                )}
               </div>
+              <input
+                type="range"
+                min="0"
+                max={latestVoice?.duration || playedDuration}
+                step="0.01"
+                value={scrubPosition ?? latestVoice?.position ?? 0}
+                onChange={(e) => handleScrub(parseFloat(e.target.value))}
+                onPointerUp={() => setScrubPosition(null)}
+                onKeyUp={() => setScrubPosition(null)}
+                className="w-full mt-2 h-1 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                title="Drag to seek"
+              />
             </motion.div>
           )}
         </AnimatePresence>
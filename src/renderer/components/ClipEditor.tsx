@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { X, Scissors } from 'lucide-react';
+import { AudioClip, ClipWaveform } from '../../shared/types';
+
+// What the editor changes on a clip
+export type ClipEdit = Pick<AudioClip, 'trimStart' | 'trimEnd' | 'fadeIn' | 'fadeOut'>;
+
+interface ClipEditorProps {
+  clip: AudioClip;
+  onSave: (edit: ClipEdit) => Promise<void>;
+  onBake: () => Promise<void>;
+  onClose: () => void;
+}
+
+const WAVEFORM_BUCKETS = 600;
+const MIN_TRIMMED_LENGTH = 0.05; // Seconds the markers must keep between them
+const MAX_FADE_SECONDS = 5;
+
+const ClipEditor: React.FC<ClipEditorProps> = ({
+  clip,
+  onSave,
+  onBake,
+  onClose
+}) => {
+  const [waveform, setWaveform] = useState<ClipWaveform | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [trimStart, setTrimStart] = useState(clip.trimStart || 0);
+  const [trimEnd, setTrimEnd] = useState<number | null>(clip.trimEnd ?? null);
+  const [fadeIn, setFadeIn] = useState(clip.fadeIn || 0);
+  const [fadeOut, setFadeOut] = useState(clip.fadeOut || 0);
+  const [dragging, setDragging] = useState<'start' | 'end' | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const waveformRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    window.electronAPI.getClipWaveform(clip.id, WAVEFORM_BUCKETS)
+      .then(data => {
+        if (!data) {
+          setLoadError('The clip no longer exists');
+          return;
+        }
+        setWaveform(data);
+        setTrimEnd(prev => prev === null ? data.duration : Math.min(prev, data.duration));
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to load waveform:', error);
+        setLoadError('The audio file could not be read');
+      });
+  }, [clip.id]);
+
+  const duration = waveform?.duration || clip.duration;
+  const end = trimEnd ?? duration;
+
+  const timeAt = (clientX: number): number => {
+    const rect = waveformRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const moveMarker = (marker: 'start' | 'end', time: number) => {
+    if (marker === 'start') {
+      setTrimStart(Math.max(0, Math.min(time, end - MIN_TRIMMED_LENGTH)));
+    } else {
+      setTrimEnd(Math.min(duration, Math.max(time, trimStart + MIN_TRIMMED_LENGTH)));
+    }
+  };
+
+  // Pressing anywhere grabs the closer marker
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!waveform) return;
+    const time = timeAt(e.clientX);
+    const marker = Math.abs(time - trimStart) <= Math.abs(time - end) ? 'start' : 'end';
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(marker);
+    moveMarker(marker, time);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragging) {
+      moveMarker(dragging, timeAt(e.clientX));
+    }
+  };
+
+  // Markers at the very edges mean no trim on that side
+  const getEdit = (): ClipEdit => ({
+    trimStart: trimStart > 0.005 ? Math.round(trimStart * 1000) / 1000 : undefined,
+    trimEnd: end < duration - 0.005 ? Math.round(end * 1000) / 1000 : undefined,
+    fadeIn: fadeIn > 0 ? fadeIn : undefined,
+    fadeOut: fadeOut > 0 ? fadeOut : undefined
+  });
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    try {
+      await onSave(getEdit());
+      onClose();
+    } catch (error) {
+      // Already reported by the board; keep the editor open
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleBake = async () => {
+    if (!window.confirm(`Cut "${clip.name}" down to the selection? The trimmed-off audio is deleted from the file for good.`)) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await onSave(getEdit());
+      await onBake();
+      onClose();
+    } catch (error) {
+      // Already reported by the board; keep the editor open
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const formatTime = (seconds: number): string => `${seconds.toFixed(2)}s`;
+  const percent = (seconds: number): string => `${duration > 0 ? (seconds / duration) * 100 : 0}%`;
+  const isTrimmed = trimStart > 0.005 || end < duration - 0.005;
+  const maxFade = Math.min(MAX_FADE_SECONDS, Math.floor((end - trimStart) * 20) / 20);
+  // Gain over the file, drawn on top of the waveform: silent outside the trim, ramps at the fades
+  const envelopeX = (seconds: number): number => duration > 0 ? (seconds / duration) * 1000 : 0;
+  const envelope = [
+    [trimStart, 100],
+    [trimStart + Math.min(fadeIn, maxFade), 2],
+    [end - Math.min(fadeOut, maxFade), 2],
+    [end, 100]
+  ].map(([seconds, y]) => `${envelopeX(seconds)},${y}`).join(' ');
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-3xl w-full overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-2">
+            <Scissors className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100 truncate">
+              Edit "{clip.name}"
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Waveform with the trimmed-off parts shaded */}
+          <div
+            ref={waveformRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragging(null)}
+            className={`relative h-40 bg-gray-50 dark:bg-gray-900 rounded-lg overflow-hidden select-none ${waveform ? 'cursor-ew-resize' : ''}`}
+          >
+            {waveform ? (
+              <>
+                <svg
+                  viewBox={`0 0 ${waveform.peaks.length} 100`}
+                  preserveAspectRatio="none"
+                  className="absolute inset-0 w-full h-full text-primary-500"
+                >
+                  {waveform.peaks.map((peak, index) => (
+                    <rect
+                      key={index}
+                      x={index}
+                      y={50 - peak * 50}
+                      width={1}
+                      height={Math.max(0.5, peak * 100)}
+                      fill="currentColor"
+                    />
+                  ))}
+                </svg>
+                <svg viewBox="0 0 1000 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full text-yellow-400">
+                  <polyline points={envelope} fill="none" stroke="currentColor" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                </svg>
+                <div className="absolute inset-y-0 left-0 bg-gray-900/40" style={{ width: percent(trimStart) }} />
+                <div className="absolute inset-y-0 right-0 bg-gray-900/40" style={{ left: percent(end) }} />
+                <div className="absolute inset-y-0 w-0.5 bg-green-500" style={{ left: percent(trimStart) }}>
+                  <div className="absolute top-0 -left-1.5 w-3.5 h-3.5 bg-green-500 rounded-sm" />
+                </div>
+                <div className="absolute inset-y-0 w-0.5 bg-red-500" style={{ left: percent(end) }}>
+                  <div className="absolute bottom-0 -left-1.5 w-3.5 h-3.5 bg-red-500 rounded-sm" />
+                </div>
+              </>
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+                {loadError || 'Loading waveform...'}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400 font-mono">
+            <span>Start {formatTime(trimStart)}</span>
+            <span>Length {formatTime(end - trimStart)} of {formatTime(duration)}</span>
+            <span>End {formatTime(end)}</span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Fade In: {fadeIn.toFixed(2)}s
+              </label>
+              <input
+                type="range"
+                min="0"
+                max={maxFade}
+                step="0.05"
+                value={Math.min(fadeIn, maxFade)}
+                onChange={(e) => setFadeIn(parseFloat(e.target.value))}
+                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Fade Out: {fadeOut.toFixed(2)}s
+              </label>
+              <input
+                type="range"
+                min="0"
+                max={maxFade}
+                step="0.05"
+                value={Math.min(fadeOut, maxFade)}
+                onChange={(e) => setFadeOut(parseFloat(e.target.value))}
+                className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            The yellow line shows how loud each part plays. Stopping a clip early also fades it out, over its fade-out time.
+          </p>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Drag the green and red markers to cut dead air from the start and end. Trimming only changes what plays; the file stays untouched unless you bake the trim into it.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={() => { setTrimStart(0); setTrimEnd(duration); setFadeIn(0); setFadeOut(0); }}
+            disabled={!waveform || isBusy}
+            className="btn-secondary text-sm"
+          >
+            Reset
+          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={handleBake}
+              disabled={!waveform || !isTrimmed || isBusy}
+              className="btn-secondary text-sm"
+              title="Rewrite the audio file with only the selection"
+            >
+              Bake Into File
+            </button>
+            <button onClick={onClose} className="btn-secondary text-sm">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!waveform || isBusy}
+              className="btn-primary text-sm"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ClipEditor;
@@ -1,22 +1,44 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Mic, Square } from 'lucide-react';
+import { RecordingLevels } from '../../shared/types';
 
 interface RecorderButtonProps {
   isRecording: boolean;
   duration: number;
+  levels: RecordingLevels | null;
   onStart: () => void;
   onStop: () => void;
 }
 
+const METER_FLOOR_DB = -60; // Left edge of the meter
+const SILENCE_WARNING_DB = -55;
+const SILENCE_WARNING_MS = 2000; // How long the input must stay that quiet before warning
+const CLIP_WARNING_MS = 1500; // How long a clipped sample keeps the warning up
+
 const RecorderButton: React.FC<RecorderButtonProps> = ({
   isRecording,
   duration,
+  levels,
   onStart,
   onStop
 }) => {
   const [isPressed, setIsPressed] = useState(false);
   const [recordingDuration, setRecordingDuration] = useState(0);
+  const [lastClippedAt, setLastClippedAt] = useState(0);
+  const [silentSince, setSilentSince] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!levels) {
+      setSilentSince(null);
+      return;
+    }
+    const now = Date.now();
+    if (levels.clipped) {
+      setLastClippedAt(now);
+    }
+    setSilentSince(prev => levels.rmsDb < SILENCE_WARNING_DB ? (prev ?? now) : null);
+  }, [levels]);
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -115,6 +137,14 @@ const RecorderButton: React.FC<RecorderButtonProps> = ({
 
   const buttonState = getButtonState();
 
+  // Levels arrive many times a second, so these stay current without a timer
+  const isClipping = levels !== null && Date.now() - lastClippedAt < CLIP_WARNING_MS;
+  const isSilent = silentSince !== null && Date.now() - silentSince >= SILENCE_WARNING_MS;
+  const meterPercent = (db: number): number => Math.max(0, Math.min(100, (1 - db / METER_FLOOR_DB) * 100));
+  const meterColor = levels && levels.peakDb > -3
+    ? 'bg-red-500'
+    : levels && levels.peakDb > -12 ? 'bg-yellow-500' : 'bg-green-500';
+
   return (
     <div className="relative">
       {/* Recording indicator ring */}
@@ -196,6 +226,31 @@ const RecorderButton: React.FC<RecorderButtonProps> = ({
             exit={{ opacity: 0, y: 10 }}
             className="mt-4 text-center"
           >
+            {/* Input level: bar is RMS, tick is the peak */}
+            <div className="w-40 mx-auto mb-3" title={levels ? `RMS ${levels.rmsDb} dBFS, peak ${levels.peakDb} dBFS` : 'Waiting for input'}>
+              <div className="relative h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`absolute inset-y-0 left-0 transition-all duration-75 ${meterColor}`}
+                  style={{ width: `${levels ? meterPercent(levels.rmsDb) : 0}%` }}
+                />
+                {levels && (
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-gray-900 dark:bg-white"
+                    style={{ left: `${Math.min(99, meterPercent(levels.peakDb))}%` }}
+                  />
+                )}
+              </div>
+              {isClipping ? (
+                <p className="mt-1 text-xs font-medium text-red-600 dark:text-red-400">
+                  Clipping, turn the input down
+                </p>
+              ) : isSilent ? (
+                <p className="mt-1 text-xs text-yellow-600 dark:text-yellow-400">
+                  No signal, check the input device
+                </p>
+              ) : null}
+            </div>
+
             <div className="inline-flex items-center space-x-2 px-3 py-1 bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200 rounded-full">
               <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
               <span className="text-xs font-medium">Recording</span>
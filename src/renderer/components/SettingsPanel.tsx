@@ -1,23 +1,68 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Volume2, Folder, Keyboard, Palette } from 'lucide-react';
-import { AppSettings, AudioDevice } from '../../shared/types';
+import { X, Volume2, Folder, Keyboard, Palette, CheckCircle, AlertCircle } from 'lucide-react';
+import { AppSettings, AudioDevice, LibraryMoveMode, LibraryMoveProgress, LibraryMoveResult, LibraryNormalizeResult, LoopbackMethod, LoopbackStatus, LoopbackTarget, MicPassthroughStatus, VirtualAudioStatus } from '../../shared/types';
+import { getIpcErrorMessage } from '../hooks/useAudioManager';
 
 interface SettingsPanelProps {
   settings: AppSettings;
   audioDevices: AudioDevice[];
   onUpdateSettings: (settings: Partial<AppSettings>) => void;
+  libraryMoveProgress: LibraryMoveProgress | null;
+  onMoveLibrary: (directory: string, mode: LibraryMoveMode) => Promise<LibraryMoveResult>;
+  onNormalizeLibrary: (targetLufs: number) => Promise<LibraryNormalizeResult>;
   onClose: () => void;
 }
 
+// Preload methods that answer with the virtual audio status
+type VirtualAudioAction = keyof Pick<Window['electronAPI'], 'getVirtualAudioStatus' | 'ensureVirtualAudio' | 'repairVirtualAudio' | 'removeVirtualAudio'>;
+
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
   settings,
   audioDevices,
   onUpdateSettings,
+  libraryMoveProgress,
+  onMoveLibrary,
+  onNormalizeLibrary,
   onClose
 }) => {
   const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
   const [activeTab, setActiveTab] = useState<'general' | 'audio' | 'hotkeys'>('general');
+  const [loopbackStatus, setLoopbackStatus] = useState<LoopbackStatus | null>(null);
+  const [virtualAudioStatus, setVirtualAudioStatus] = useState<VirtualAudioStatus | null>(null);
+  const [virtualAudioBusy, setVirtualAudioBusy] = useState(false);
+  const [micPassthroughStatus, setMicPassthroughStatus] = useState<MicPassthroughStatus | null>(null);
+  const [pendingClipsDirectory, setPendingClipsDirectory] = useState<string | null>(null);
+  const [libraryMoveBusy, setLibraryMoveBusy] = useState(false);
+  const [libraryMoveMessage, setLibraryMoveMessage] = useState<{ error: boolean; text: string } | null>(null);
+  const [normalizeBusy, setNormalizeBusy] = useState(false);
+  const [normalizeMessage, setNormalizeMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  // Ask the main process what is really routed whenever the saved settings change
+  useEffect(() => {
+    window.electronAPI.getLoopbackStatus()
+      .then(status => setLoopbackStatus(status))
+      .catch((error: unknown) => console.error('Failed to get loopback status:', error));
+    window.electronAPI.getMicPassthroughStatus()
+      .then(status => setMicPassthroughStatus(status))
+      .catch((error: unknown) => console.error('Failed to get microphone passthrough status:', error));
+  }, [settings]);
+
+  useEffect(() => {
+    runVirtualAudioAction('getVirtualAudioStatus');
+  }, [settings]);
+
+  const runVirtualAudioAction = async (action: VirtualAudioAction) => {
+    setVirtualAudioBusy(true);
+    try {
+      const status = await window.electronAPI[action]();
+      setVirtualAudioStatus(status);
+    } catch (error) {
+      console.error(`Virtual audio action ${action} failed:`, error);
+    } finally {
+      setVirtualAudioBusy(false);
+    }
+  };
 
   const handleSettingChange = async (key: keyof AppSettings, value: any) => {
     const newSettings = { ...localSettings, [key]: value };
@@ -27,9 +72,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     if (key === 'enableSpeakerLoopback') {
       try {
         if (value) {
-          await (window as any).electronAPI.enableSpeakerLoopback();
+          await window.electronAPI.enableSpeakerLoopback();
         } else {
-          await (window as any).electronAPI.disableSpeakerLoopback();
+          await window.electronAPI.disableSpeakerLoopback();
         }
       } catch (error) {
         console.error('Failed to toggle speaker loopback:', error);
@@ -42,9 +87,9 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     if (key === 'enableHeadphoneLoopback') {
       try {
         if (value) {
-          await (window as any).electronAPI.enableHeadphoneLoopback();
+          await window.electronAPI.enableHeadphoneLoopback();
         } else {
-          await (window as any).electronAPI.disableHeadphoneLoopback();
+          await window.electronAPI.disableHeadphoneLoopback();
         }
       } catch (error) {
         console.error('Failed to toggle headphone loopback:', error);
@@ -57,6 +102,62 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     onUpdateSettings(newSettings);
   };
 
+  const chooseClipsDirectory = async () => {
+    try {
+      const directory = await window.electronAPI.chooseClipsDirectory();
+      if (directory && directory !== localSettings.clipsDirectory) {
+        setPendingClipsDirectory(directory);
+        setLibraryMoveMessage(null);
+      }
+    } catch (error) {
+      console.error('Failed to choose clips directory:', error);
+    }
+  };
+
+  const moveLibrary = async (mode: LibraryMoveMode) => {
+    if (!pendingClipsDirectory) return;
+
+    setLibraryMoveBusy(true);
+    try {
+      const result = await onMoveLibrary(pendingClipsDirectory, mode);
+      setLocalSettings(prev => ({ ...prev, clipsDirectory: result.directory }));
+      setLibraryMoveMessage({
+        error: result.leftoverFiles.length > 0,
+        text: `${mode === 'move' ? 'Moved' : 'Copied'} ${result.movedClipIds.length} clips` +
+          (result.skippedClipIds.length ? `, ${result.skippedClipIds.length} missing clips left as they were` : '') +
+          (result.leftoverFiles.length ? `; ${result.leftoverFiles.length} originals could not be deleted` : '')
+      });
+    } catch (error) {
+      // Main rolled everything back, the clips are still where they were
+      const message = getIpcErrorMessage(error);
+      setLibraryMoveMessage({ error: true, text: `Nothing was changed: ${message}` });
+    } finally {
+      setLibraryMoveBusy(false);
+      setPendingClipsDirectory(null);
+    }
+  };
+
+  // The target is saved straight away so later recordings are normalized to the same level
+  const normalizeLibrary = async () => {
+    const targetLufs = localSettings.loudnessTargetLufs;
+    setNormalizeBusy(true);
+    setNormalizeMessage(null);
+    try {
+      const result = await onNormalizeLibrary(targetLufs);
+      onUpdateSettings({ loudnessTargetLufs: targetLufs });
+      setNormalizeMessage({
+        error: result.failures.length > 0,
+        text: `Normalized ${result.clips.length} clips to ${targetLufs} LUFS` +
+          (result.failures.length ? `; ${result.failures.length} could not be read (${result.failures.map(failure => failure.clipName).join(', ')})` : '')
+      });
+    } catch (error) {
+      const message = getIpcErrorMessage(error);
+      setNormalizeMessage({ error: true, text: `Normalization failed: ${message}` });
+    } finally {
+      setNormalizeBusy(false);
+    }
+  };
+
   const handleSave = () => {
     onUpdateSettings(localSettings);
     onClose();
@@ -67,6 +168,30 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     onClose();
   };
 
+  // Physical outputs that can monitor what is sent to the virtual device
+  const monitorDevices = audioDevices.filter(device => device.type === 'output' && !device.isVirtual);
+
+  // The virtual microphone itself is listed as an input but can't be recorded or mixed into itself
+  const recordingMicrophoneDevices = audioDevices.filter(device => device.type === 'input' && device.id !== 'virtual-microphone-input');
+
+  // ALSA capture cards are recorded directly and aren't PulseAudio sources the mix can use
+  const microphoneDevices = recordingMicrophoneDevices.filter(device => !device.id.startsWith('alsa-input-'));
+
+  const renderLoopbackStatus = (target: LoopbackTarget) => {
+    const status = loopbackStatus?.[target];
+    if (!status) return null;
+
+    return (
+      <p className={`text-xs ${status.error ? 'text-red-600 dark:text-red-400' : status.active ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}>
+        {status.error
+          ? `Not active: ${status.error}`
+          : status.active
+            ? `Active on ${status.device}${status.moduleId ? ` (module #${status.moduleId})` : ''}`
+            : 'Not active - enable Virtual Audio Routing to monitor clips'}
+      </p>
+    );
+  };
+
   const tabs = [
     { id: 'general', label: 'General', icon: Palette },
     { id: 'audio', label: 'Audio', icon: Volume2 },
@@ -183,6 +308,25 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   />
                 </div>
 
+                {/* Crossfade */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                    Crossfade: {localSettings.crossfadeMs > 0 ? `${localSettings.crossfadeMs}ms` : 'Off'}
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="2000"
+                    step="50"
+                    value={localSettings.crossfadeMs}
+                    onChange={(e) => handleSettingChange('crossfadeMs', parseInt(e.target.value))}
+                    className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    How long a clip that cuts off others overlaps with them, fading them out as it fades in
+                  </p>
+                </div>
+
                 {/* Clips Directory */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
@@ -195,10 +339,127 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                         {localSettings.clipsDirectory}
                       </span>
                     </div>
-                    <button className="btn-secondary text-sm">
+                    <button
+                      onClick={chooseClipsDirectory}
+                      disabled={libraryMoveBusy}
+                      className="btn-secondary text-sm"
+                    >
                       Change
                     </button>
                   </div>
+
+                  {pendingClipsDirectory && !libraryMoveBusy && (
+                    <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg space-y-2">
+                      <p className="text-sm text-gray-700 dark:text-gray-300">
+                        Take your clips to <span className="font-medium">{pendingClipsDirectory}</span>?
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Every copy is checked before the library switches over; if anything fails, nothing changes.
+                      </p>
+                      <div className="flex items-center space-x-2">
+                        <button onClick={() => moveLibrary('move')} className="btn-primary text-xs px-3 py-1">
+                          Move Files
+                        </button>
+                        <button onClick={() => moveLibrary('copy')} className="btn-secondary text-xs px-3 py-1">
+                          Copy Files
+                        </button>
+                        <button onClick={() => setPendingClipsDirectory(null)} className="btn-secondary text-xs px-3 py-1">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {libraryMoveBusy && libraryMoveProgress && (
+                    <div className="mt-3 space-y-1">
+                      <div className="w-full h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary-600 transition-all"
+                          style={{ width: `${libraryMoveProgress.bytesTotal ? Math.round(libraryMoveProgress.bytesDone / libraryMoveProgress.bytesTotal * 100) : 0}%` }}
+                        />
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {libraryMoveProgress.phase === 'copying'
+                          ? 'Copying and verifying'
+                          : libraryMoveProgress.phase === 'removing-originals'
+                            ? 'Removing originals'
+                            : 'Rolling back'} - {libraryMoveProgress.filesDone} of {libraryMoveProgress.filesTotal} files
+                      </p>
+                    </div>
+                  )}
+
+                  {libraryMoveMessage && !libraryMoveBusy && (
+                    <p className={`mt-2 text-xs ${libraryMoveMessage.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                      {libraryMoveMessage.text}
+                    </p>
+                  )}
+                </div>
+
+                {/* Loudness Normalization */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                    Loudness Target: {localSettings.loudnessTargetLufs} LUFS
+                  </label>
+                  <input
+                    type="range"
+                    min="-30"
+                    max="-10"
+                    step="1"
+                    value={localSettings.loudnessTargetLufs}
+                    onChange={(e) => handleSettingChange('loudnessTargetLufs', parseInt(e.target.value))}
+                    className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                  />
+                  <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    <span>-30 LUFS (quieter)</span>
+                    <span>-10 LUFS (louder)</span>
+                  </div>
+
+                  <div className="flex items-center justify-between mt-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Normalize New Recordings
+                      </label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Measure each recording as it is saved and bring it to the target
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleSettingChange('autoNormalizeRecordings', !localSettings.autoNormalizeRecordings)}
+                      className={`
+                        relative inline-flex h-6 w-11 items-center rounded-full transition-colors
+                        ${localSettings.autoNormalizeRecordings
+                          ? 'bg-primary-600'
+                          : 'bg-gray-200 dark:bg-gray-700'
+                        }
+                      `}
+                    >
+                      <span
+                        className={`
+                          inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                          ${localSettings.autoNormalizeRecordings ? 'translate-x-6' : 'translate-x-1'}
+                        `}
+                      />
+                    </button>
+                  </div>
+
+                  <div className="flex items-center justify-between mt-4">
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mr-3">
+                      Sets a normalization gain on every clip so the whole board plays at the same loudness. Clip gain still applies on top, and the audio files are not changed.
+                    </p>
+                    <button
+                      onClick={normalizeLibrary}
+                      disabled={normalizeBusy}
+                      className="btn-secondary text-xs px-3 py-1 whitespace-nowrap"
+                    >
+                      {normalizeBusy ? 'Measuring...' : 'Normalize Library'}
+                    </button>
+                  </div>
+
+                  {normalizeMessage && !normalizeBusy && (
+                    <p className={`mt-2 text-xs ${normalizeMessage.error ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                      {normalizeMessage.text}
+                    </p>
+                  )}
                 </div>
               </motion.div>
             )}
@@ -284,6 +545,311 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   </div>
                 )}
 
+                {/* Microphone Passthrough */}
+                <div className="space-y-4">
+                  <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 border-b border-gray-200 dark:border-gray-700 pb-2">
+                    Microphone Passthrough
+                  </h4>
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Pass My Microphone Through
+                      </label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Send your voice and your clips through the one virtual microphone
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleSettingChange('mixMicrophoneIntoVirtualMic', !localSettings.mixMicrophoneIntoVirtualMic)}
+                      className={`
+                        relative inline-flex h-6 w-11 items-center rounded-full transition-colors
+                        ${localSettings.mixMicrophoneIntoVirtualMic
+                          ? 'bg-primary-600'
+                          : 'bg-gray-200 dark:bg-gray-700'
+                        }
+                      `}
+                    >
+                      <span
+                        className={`
+                          inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                          ${localSettings.mixMicrophoneIntoVirtualMic ? 'translate-x-6' : 'translate-x-1'}
+                        `}
+                      />
+                    </button>
+                  </div>
+
+                  {localSettings.mixMicrophoneIntoVirtualMic && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                          Microphone
+                        </label>
+                        <select
+                          value={localSettings.inputDeviceId.startsWith('monitor-') ? '' : localSettings.inputDeviceId}
+                          onChange={(e) => handleSettingChange('inputDeviceId', e.target.value)}
+                          className="input-field"
+                        >
+                          <option value="">System default microphone</option>
+                          {microphoneDevices.map(device => (
+                            <option key={device.id} value={device.id}>
+                              {device.name} {device.isDefault ? '(Default)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                          Shared with the recording input; while that is a system audio monitor the default microphone is passed through
+                        </p>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                          Microphone Gain: {localSettings.micPassthroughGainDb > 0 ? '+' : ''}{localSettings.micPassthroughGainDb} dB
+                        </label>
+                        <input
+                          type="range"
+                          min="-24"
+                          max="12"
+                          step="1"
+                          value={localSettings.micPassthroughGainDb}
+                          onChange={(e) => handleSettingChange('micPassthroughGainDb', parseInt(e.target.value, 10))}
+                          className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                        />
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                          Mute Microphone
+                        </label>
+                        <button
+                          onClick={() => handleSettingChange('micPassthroughMuted', !localSettings.micPassthroughMuted)}
+                          className={`
+                            relative inline-flex h-6 w-11 items-center rounded-full transition-colors
+                            ${localSettings.micPassthroughMuted
+                              ? 'bg-primary-600'
+                              : 'bg-gray-200 dark:bg-gray-700'
+                            }
+                          `}
+                        >
+                          <span
+                            className={`
+                              inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                              ${localSettings.micPassthroughMuted ? 'translate-x-6' : 'translate-x-1'}
+                            `}
+                          />
+                        </button>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                          Push-to-Talk Hotkey
+                        </label>
+                        <input
+                          type="text"
+                          value={localSettings.micPushToTalkHotkey}
+                          placeholder="e.g. Ctrl+Shift+T, empty for always on"
+                          onChange={(e) => setLocalSettings(prev => ({ ...prev, micPushToTalkHotkey: e.target.value }))}
+                          onBlur={(e) => {
+                            if (e.target.value.trim() !== settings.micPushToTalkHotkey) {
+                              handleSettingChange('micPushToTalkHotkey', e.target.value.trim());
+                            }
+                          }}
+                          className="input-field font-mono"
+                        />
+                        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                          Hold the keys to talk; the microphone closes shortly after you let go
+                        </p>
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            Duck Microphone During Clips
+                          </label>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            Lower your voice while a clip is playing
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleSettingChange('micDuckingEnabled', !localSettings.micDuckingEnabled)}
+                          className={`
+                            relative inline-flex h-6 w-11 items-center rounded-full transition-colors
+                            ${localSettings.micDuckingEnabled
+                              ? 'bg-primary-600'
+                              : 'bg-gray-200 dark:bg-gray-700'
+                            }
+                          `}
+                        >
+                          <span
+                            className={`
+                              inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                              ${localSettings.micDuckingEnabled ? 'translate-x-6' : 'translate-x-1'}
+                            `}
+                          />
+                        </button>
+                      </div>
+
+                      {localSettings.micDuckingEnabled && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                            Ducking Amount: {localSettings.micDuckingDb} dB
+                          </label>
+                          <input
+                            type="range"
+                            min="-40"
+                            max="0"
+                            step="1"
+                            value={localSettings.micDuckingDb}
+                            onChange={(e) => handleSettingChange('micDuckingDb', parseInt(e.target.value, 10))}
+                            className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </div>
+                      )}
+
+                      {micPassthroughStatus && (
+                        <p className={`text-xs ${micPassthroughStatus.error ? 'text-red-600 dark:text-red-400' : micPassthroughStatus.active ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                          {micPassthroughStatus.error
+                            ? `Not active: ${micPassthroughStatus.error}`
+                            : micPassthroughStatus.active
+                              ? micPassthroughStatus.open ? 'Microphone is live' : 'Microphone is closed'
+                              : 'Not active - turn on Manage Virtual Audio Devices'}
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+
+                {/* Virtual Audio Devices */}
+                <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Manage Virtual Audio Devices
+                      </label>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        Create SoundBoard-Output and the virtual microphone on startup, remove them on exit
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleSettingChange('manageVirtualAudioDevices', !localSettings.manageVirtualAudioDevices)}
+                      className={`
+                        relative inline-flex h-6 w-11 items-center rounded-full transition-colors
+                        ${localSettings.manageVirtualAudioDevices
+                          ? 'bg-primary-600'
+                          : 'bg-gray-200 dark:bg-gray-700'
+                        }
+                      `}
+                    >
+                      <span
+                        className={`
+                          inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                          ${localSettings.manageVirtualAudioDevices ? 'translate-x-6' : 'translate-x-1'}
+                        `}
+                      />
+                    </button>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Virtual Microphone Name
+                    </label>
+                    <input
+                      type="text"
+                      value={localSettings.virtualMicName}
+                      onChange={(e) => setLocalSettings(prev => ({ ...prev, virtualMicName: e.target.value }))}
+                      onBlur={(e) => {
+                        if (e.target.value !== settings.virtualMicName) {
+                          handleSettingChange('virtualMicName', e.target.value);
+                        }
+                      }}
+                      className="input-field"
+                    />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Pick this as the input device in Discord; renaming recreates the virtual microphone
+                    </p>
+                  </div>
+
+                  {virtualAudioStatus && !virtualAudioStatus.available && (
+                    <p className="text-xs text-red-600 dark:text-red-400">
+                      {virtualAudioStatus.error}
+                    </p>
+                  )}
+
+                  {virtualAudioStatus && virtualAudioStatus.available && (
+                    <ul className="space-y-1">
+                      {virtualAudioStatus.components
+                        .filter(component => component.required || component.present)
+                        .map(component => (
+                          <li key={component.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                            {component.required && component.present && !component.stale && component.moduleIds.length <= 1
+                              ? <CheckCircle className="w-4 h-4 text-green-500" />
+                              : <AlertCircle className="w-4 h-4 text-red-500" />}
+                            <span>{component.label}</span>
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                              {!component.present
+                                ? 'missing'
+                                : !component.required
+                                  ? 'switched off, remove with Create Missing'
+                                  : component.stale
+                                    ? 'outdated, recreate with Create Missing'
+                                    : component.moduleIds.length === 0
+                                      ? 'provided by system config'
+                                      : component.moduleIds.length > 1
+                                        ? `duplicated (modules ${component.moduleIds.join(', ')})`
+                                        : `module #${component.moduleIds[0]}`}
+                            </span>
+                          </li>
+                        ))}
+                      {virtualAudioStatus.legacyModuleIds.length > 0 && (
+                        <li className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                          <AlertCircle className="w-4 h-4 text-yellow-500" />
+                          <span>Leftovers from the old setup scripts</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            modules {virtualAudioStatus.legacyModuleIds.join(', ')}
+                          </span>
+                        </li>
+                      )}
+                    </ul>
+                  )}
+
+                  {virtualAudioStatus?.available && virtualAudioStatus.error && (
+                    <p className="text-xs text-red-600 dark:text-red-400">
+                      {virtualAudioStatus.error}
+                    </p>
+                  )}
+
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => runVirtualAudioAction('ensureVirtualAudio')}
+                      disabled={virtualAudioBusy}
+                      className="btn-primary text-xs px-3 py-1"
+                    >
+                      Create Missing
+                    </button>
+                    <button
+                      onClick={() => runVirtualAudioAction('repairVirtualAudio')}
+                      disabled={virtualAudioBusy}
+                      className="btn-secondary text-xs px-3 py-1"
+                    >
+                      Repair
+                    </button>
+                    <button
+                      onClick={() => runVirtualAudioAction('removeVirtualAudio')}
+                      disabled={virtualAudioBusy}
+                      className="btn-secondary text-xs px-3 py-1"
+                    >
+                      Remove
+                    </button>
+                    <button
+                      onClick={() => runVirtualAudioAction('getVirtualAudioStatus')}
+                      disabled={virtualAudioBusy}
+                      className="btn-secondary text-xs px-3 py-1"
+                    >
+                      Check Status
+                    </button>
+                  </div>
+                </div>
+
                 {/* Auto-Start Service Toggle */}
                 <div className="flex items-center justify-between">
                   <div>
@@ -450,6 +1016,78 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   </div>
                 )}
 
+                {/* Instant Replay */}
+                <div className="flex items-center justify-between">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Instant Replay
+                    </label>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Keep the last few seconds of system audio so a moment can be saved after it happened
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleSettingChange('replayBufferEnabled', !localSettings.replayBufferEnabled)}
+                    className={`
+                      relative inline-flex h-6 w-11 items-center rounded-full transition-colors
+                      ${localSettings.replayBufferEnabled
+                        ? 'bg-primary-600'
+                        : 'bg-gray-200 dark:bg-gray-700'
+                      }
+                    `}
+                  >
+                    <span
+                      className={`
+                        inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                        ${localSettings.replayBufferEnabled ? 'translate-x-6' : 'translate-x-1'}
+                      `}
+                    />
+                  </button>
+                </div>
+
+                {localSettings.replayBufferEnabled && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                        Replay Length: {localSettings.replayBufferSeconds}s
+                      </label>
+                      <input
+                        type="range"
+                        min="10"
+                        max="120"
+                        step="5"
+                        value={localSettings.replayBufferSeconds}
+                        onChange={(e) => handleSettingChange('replayBufferSeconds', parseInt(e.target.value))}
+                        className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer"
+                      />
+                      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        Captures the system audio source selected above, or your default output; held in memory only (at most about 46 MB, for 120s of 48kHz 32-bit stereo)
+                      </p>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                        Save Replay Hotkey
+                      </label>
+                      <input
+                        type="text"
+                        value={localSettings.replayBufferHotkey}
+                        placeholder="e.g. Ctrl+Shift+R, empty for the header button only"
+                        onChange={(e) => setLocalSettings(prev => ({ ...prev, replayBufferHotkey: e.target.value }))}
+                        onBlur={(e) => {
+                          if (e.target.value.trim() !== settings.replayBufferHotkey) {
+                            handleSettingChange('replayBufferHotkey', e.target.value.trim());
+                          }
+                        }}
+                        className="input-field font-mono"
+                      />
+                      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        Works while SoundBoard is in the background; the saved replay shows up as a new system audio clip
+                      </p>
+                    </div>
+                  </>
+                )}
+
                 {/* Audio Loopback Controls */}
                 <div className="space-y-4">
                   <h4 className="text-lg font-medium text-gray-900 dark:text-gray-100 border-b border-gray-200 dark:border-gray-700 pb-2">
@@ -458,6 +1096,37 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   <p className="text-sm text-gray-600 dark:text-gray-400">
                     Control which devices can hear the audio from your soundboard clips
                   </p>
+
+                  {/* Loopback Method */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                      Loopback Method
+                    </label>
+                    <select
+                      value={localSettings.loopbackMethod}
+                      onChange={(e) => handleSettingChange('loopbackMethod', e.target.value as LoopbackMethod)}
+                      className="input-field"
+                    >
+                      <option value="app">Play clips to each device (lowest latency, separate volumes)</option>
+                      <option value="pulseaudio">PulseAudio loopback module (also monitors other apps on the virtual device)</option>
+                    </select>
+                  </div>
+
+                  {/* Virtual Device Level */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                      Discord (Virtual Mic) Volume: {Math.round(localSettings.virtualOutputVolume * 100)}%
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={localSettings.virtualOutputVolume}
+                      onChange={(e) => handleSettingChange('virtualOutputVolume', parseFloat(e.target.value))}
+                      className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                    />
+                  </div>
                   
                   {/* Speaker Loopback Toggle */}
                   <div className="flex items-center justify-between">
@@ -488,6 +1157,40 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     </button>
                   </div>
 
+                  {localSettings.enableSpeakerLoopback && (
+                    <div className="ml-4 space-y-3">
+                      <select
+                        value={localSettings.speakerDeviceId}
+                        onChange={(e) => handleSettingChange('speakerDeviceId', e.target.value)}
+                        className="input-field"
+                      >
+                        <option value="">Same as Output Device</option>
+                        {monitorDevices.map(device => (
+                          <option key={device.id} value={device.id}>
+                            {device.name} {device.isDefault ? '(Default)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                      {localSettings.loopbackMethod === 'app' && (
+                        <div>
+                          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            Speaker Volume: {Math.round(localSettings.speakerMonitorVolume * 100)}%
+                          </label>
+                          <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.01"
+                            value={localSettings.speakerMonitorVolume}
+                            onChange={(e) => handleSettingChange('speakerMonitorVolume', parseFloat(e.target.value))}
+                            className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </div>
+                      )}
+                      {renderLoopbackStatus('speaker')}
+                    </div>
+                  )}
+
                   {/* Headphone Loopback Toggle */}
                   <div className="flex items-center justify-between">
                     <div>
@@ -517,14 +1220,49 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                     </button>
                   </div>
 
+                  {localSettings.enableHeadphoneLoopback && (
+                    <div className="ml-4 space-y-3">
+                      <select
+                        value={localSettings.headphoneDeviceId}
+                        onChange={(e) => handleSettingChange('headphoneDeviceId', e.target.value)}
+                        className="input-field"
+                      >
+                        <option value="">Select headphones</option>
+                        {monitorDevices.map(device => (
+                          <option key={device.id} value={device.id}>
+                            {device.name} {device.isDefault ? '(Default)' : ''}
+                          </option>
+                        ))}
+                      </select>
+                      {localSettings.loopbackMethod === 'app' && (
+                        <div>
+                          <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            Headphone Volume: {Math.round(localSettings.headphoneMonitorVolume * 100)}%
+                          </label>
+                          <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.01"
+                            value={localSettings.headphoneMonitorVolume}
+                            onChange={(e) => handleSettingChange('headphoneMonitorVolume', parseFloat(e.target.value))}
+                            className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                          />
+                        </div>
+                      )}
+                      {renderLoopbackStatus('headphone')}
+                    </div>
+                  )}
+
                   {/* Loopback Info */}
                   <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
                     <h5 className="font-medium text-blue-900 dark:text-blue-100 mb-2">
                       How Loopback Works:
                     </h5>
                     <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
-                      <li>• <strong>Speaker Loopback:</strong> Routes audio from virtual output to your speakers</li>
-                      <li>• <strong>Headphone Loopback:</strong> Routes audio from virtual output to your headphones</li>
+                      <li>• <strong>Speaker Loopback:</strong> Plays each clip on your speakers at the same time as the virtual output</li>
+                      <li>• <strong>Headphone Loopback:</strong> Plays each clip on your headphones at the same time as the virtual output</li>
+                      <li>• <strong>Independent Levels:</strong> Discord, speakers and headphones each have their own volume</li>
                       <li>• <strong>Discord Integration:</strong> Audio always goes to Discord via virtual microphone</li>
                       <li>• <strong>Toggle Control:</strong> Enable/disable each loopback independently</li>
                     </ul>
@@ -570,6 +1308,28 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   </div>
                 )}
 
+                {/* Recording Microphone */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
+                    Recording Microphone
+                  </label>
+                  <select
+                    value={localSettings.inputDeviceId.startsWith('monitor-') ? '' : localSettings.inputDeviceId}
+                    onChange={(e) => handleSettingChange('inputDeviceId', e.target.value)}
+                    className="input-field"
+                  >
+                    <option value="">System default microphone</option>
+                    {recordingMicrophoneDevices.map(device => (
+                      <option key={device.id} value={device.id}>
+                        {device.name} {device.isDefault ? '(Default)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    Shared with the system audio capture input. If the microphone is unplugged, recordings fall back to the default microphone.
+                  </p>
+                </div>
+
                 {/* Audio Quality */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
@@ -577,13 +1337,18 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                   </label>
                   <div className="grid grid-cols-2 gap-3">
                     {[
-                      { value: 'low', label: 'Low (22kHz)', description: 'Smaller files' },
-                      { value: 'medium', label: 'Medium (44kHz)', description: 'Balanced' },
-                      { value: 'high', label: 'High (48kHz)', description: 'Best quality' }
+                      { value: 22050, label: 'Low (22kHz)', description: 'Smaller files' },
+                      { value: 44100, label: 'Medium (44kHz)', description: 'Balanced' },
+                      { value: 48000, label: 'High (48kHz)', description: 'Best quality' }
                     ].map((quality) => (
                       <button
                         key={quality.value}
-                        className="p-3 rounded-lg border border-gray-200 dark:border-gray-600 text-left hover:border-primary-300 dark:hover:border-primary-600 transition-colors"
+                        onClick={() => handleSettingChange('recordingSampleRate', quality.value)}
+                        className={`p-3 rounded-lg border text-left transition-colors ${
+                          localSettings.recordingSampleRate === quality.value
+                            ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                            : 'border-gray-200 dark:border-gray-600 hover:border-primary-300 dark:hover:border-primary-600'
+                        }`}
                       >
                         <div className="font-medium text-gray-900 dark:text-gray-100">
                           {quality.label}
@@ -594,6 +1359,52 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                       </button>
                     ))}
                   </div>
+
+                  <div className="grid grid-cols-3 gap-3 mt-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                        Bit Depth
+                      </label>
+                      <select
+                        value={localSettings.recordingBitDepth}
+                        onChange={(e) => handleSettingChange('recordingBitDepth', parseInt(e.target.value))}
+                        className="input-field"
+                      >
+                        <option value={16}>16-bit</option>
+                        <option value={24}>24-bit</option>
+                        <option value={32}>32-bit</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                        Microphone
+                      </label>
+                      <select
+                        value={localSettings.micRecordingChannels}
+                        onChange={(e) => handleSettingChange('micRecordingChannels', parseInt(e.target.value))}
+                        className="input-field"
+                      >
+                        <option value={1}>Mono</option>
+                        <option value={2}>Stereo</option>
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                        System Audio
+                      </label>
+                      <select
+                        value={localSettings.systemAudioChannels}
+                        onChange={(e) => handleSettingChange('systemAudioChannels', parseInt(e.target.value))}
+                        className="input-field"
+                      >
+                        <option value={1}>Mono</option>
+                        <option value={2}>Stereo</option>
+                      </select>
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Applies to new recordings; each clip keeps the format it was recorded in
+                  </p>
                 </div>
               </motion.div>
             )}
@@ -1,14 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Sun, Moon, Monitor, Settings, Mic, MicOff } from 'lucide-react';
+import { Sun, Moon, Monitor, Settings, Mic, MicOff, RefreshCw, AlertTriangle, Upload, Package, PackageOpen, CheckSquare, Square, History } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { AudioClip, AppSettings, RecordingState, PlaybackState } from '../../shared/types';
+import { AudioClip, AppSettings, RecordingState, PlaybackState, ClipSource } from '../../shared/types';
 import RecorderButton from './RecorderButton';
-import ClipCard from './ClipCard';
+import ClipCard, { clipSourceOptions } from './ClipCard';
 import SettingsPanel from './SettingsPanel';
+import ClipEditor, { ClipEdit } from './ClipEditor';
 import AudioTestPanel from './AudioTestPanel';
 import { useTheme } from '../hooks/useTheme';
-import { useAudioManager } from '../hooks/useAudioManager';
+import { useAudioManager, getIpcErrorMessage } from '../hooks/useAudioManager';
 
 const SoundboardApp: React.FC = () => {
   const { theme, toggleTheme, systemTheme } = useTheme();
@@ -19,8 +20,28 @@ const SoundboardApp: React.FC = () => {
     startRecording,
     stopRecording,
     playClip,
+    stopPlayback,
+    pausePlayback,
+    resumePlayback,
+    seekPlayback,
+    saveClip,
     deleteClip,
     renameClip,
+    libraryScan,
+    scanLibrary,
+    relinkClip,
+    importClips,
+    exportSoundPack,
+    importSoundPack,
+    normalizeLibrary,
+    bakeClipTrim,
+    lastAutoTrim,
+    undoAutoTrim,
+    recordingLevels,
+    replayBufferStatus,
+    saveReplayBuffer,
+    libraryMoveProgress,
+    moveLibrary,
     settings,
     updateSettings,
     audioDevices
@@ -28,6 +49,19 @@ const SoundboardApp: React.FC = () => {
 
   const [showSettings, setShowSettings] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [sourceFilter, setSourceFilter] = useState<ClipSource | 'all'>('all');
+
+  const [isScanning, setIsScanning] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Clips picked for a pack export; null while not selecting
+  const [packSelection, setPackSelection] = useState<Set<string> | null>(null);
+  const [trimClipId, setTrimClipId] = useState<string | null>(null);
+  // dragenter/dragleave also fire for every child the pointer crosses
+  const dragDepth = useRef(0);
+
+  const visibleClips = sourceFilter === 'all' ? clips : clips.filter(clip => clip.source === sourceFilter);
+  const missingClips = clips.filter(clip => libraryScan?.missingClipIds.includes(clip.id));
 
   useEffect(() => {
     // Simulate loading time
@@ -53,6 +87,32 @@ const SoundboardApp: React.FC = () => {
     }
   };
 
+  // Each auto-trimmed recording gets its own toast with a way back to the full take
+  useEffect(() => {
+    if (!lastAutoTrim) return;
+
+    const { clipId, clipName, removedSeconds } = lastAutoTrim;
+    toast(t => (
+      <span className="flex items-center space-x-3">
+        <span>Trimmed {removedSeconds.toFixed(1)}s of silence from {clipName}</span>
+        <button
+          onClick={async () => {
+            toast.dismiss(t.id);
+            try {
+              await undoAutoTrim(clipId);
+              toast.success(`Restored the full recording of ${clipName}`);
+            } catch (error) {
+              toast.error('Failed to undo the trim');
+            }
+          }}
+          className="btn-secondary text-xs px-3 py-1"
+        >
+          Undo
+        </button>
+      </span>
+    ), { id: `auto-trim-${clipId}`, duration: 8000 });
+  }, [lastAutoTrim, undoAutoTrim]);
+
   const handleClipPlay = async (clipId: string) => {
     console.log('=== CLIP BUTTON CLICKED ===');
     console.log('Clip ID:', clipId);
@@ -67,6 +127,79 @@ const SoundboardApp: React.FC = () => {
     }
   };
 
+  const handleClipStop = async (clipId: string) => {
+    try {
+      await stopPlayback(clipId);
+    } catch (error) {
+      toast.error('Failed to stop clip');
+    }
+  };
+
+  const handleClipPause = async (clipId: string) => {
+    try {
+      await pausePlayback(clipId);
+    } catch (error) {
+      toast.error('Failed to pause clip');
+    }
+  };
+
+  const handleClipResume = async (clipId: string) => {
+    try {
+      await resumePlayback(clipId);
+    } catch (error) {
+      toast.error('Failed to resume clip');
+    }
+  };
+
+  const handleClipSeek = async (clipId: string, position: number) => {
+    try {
+      await seekPlayback(clipId, position);
+    } catch (error) {
+      toast.error('Failed to seek clip');
+    }
+  };
+
+  const handleClipUpdate = async (clipId: string, updates: Partial<AudioClip>) => {
+    const clip = clips.find(c => c.id === clipId);
+    if (!clip) return;
+
+    try {
+      await saveClip({ ...clip, ...updates });
+    } catch (error) {
+      toast.error('Failed to update clip');
+    }
+  };
+
+  // Both rethrow so the trim editor stays open when something goes wrong
+  const handleClipEditSave = async (clip: AudioClip, edit: ClipEdit) => {
+    try {
+      await saveClip({ ...clip, ...edit });
+    } catch (error) {
+      toast.error('Failed to save clip changes');
+      throw error;
+    }
+  };
+
+  const handleTrimBake = async (clipId: string) => {
+    try {
+      await bakeClipTrim(clipId);
+      toast.success('Trim baked into the audio file');
+    } catch (error) {
+      toast.error('Failed to rewrite the audio file');
+      throw error;
+    }
+  };
+
+  const handleSaveReplay = async () => {
+    try {
+      const clip = await saveReplayBuffer();
+      toast.success(`Saved the last ${clip.duration.toFixed(0)}s as ${clip.name}`);
+    } catch (error) {
+      const message = getIpcErrorMessage(error);
+      toast.error(`Failed to save the replay: ${message}`);
+    }
+  };
+
   const handleClipDelete = async (clipId: string) => {
     try {
       await deleteClip(clipId);
@@ -76,6 +209,142 @@ const SoundboardApp: React.FC = () => {
     }
   };
 
+  const handleLibraryScan = async () => {
+    setIsScanning(true);
+    try {
+      const result = await scanLibrary();
+      const changes = [
+        result.importedClipIds.length > 0 && `${result.importedClipIds.length} imported`,
+        result.relinkedClipIds.length > 0 && `${result.relinkedClipIds.length} relinked`,
+        result.missingClipIds.length > 0 && `${result.missingClipIds.length} missing`
+      ].filter(Boolean);
+      toast.success(changes.length > 0 ? `Library updated: ${changes.join(', ')}` : 'Library is up to date');
+    } catch (error) {
+      toast.error('Failed to scan the clips directory');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleClipRelink = async (clipId: string) => {
+    try {
+      const clip = await relinkClip(clipId);
+      if (clip) {
+        toast.success(`Relinked ${clip.name}`);
+      }
+    } catch (error) {
+      toast.error('That file is not a playable WAV file');
+    }
+  };
+
+  const handleRemoveMissing = async () => {
+    try {
+      await Promise.all(missingClips.map(clip => deleteClip(clip.id)));
+      toast.success(`Removed ${missingClips.length} missing clip${missingClips.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      toast.error('Failed to remove missing clips');
+    }
+  };
+
+  const handleImport = async (filePaths?: string[]) => {
+    setIsImporting(true);
+    try {
+      const result = await importClips(filePaths);
+      if (result.clips.length > 0) {
+        toast.success(`Imported ${result.clips.length} clip${result.clips.length !== 1 ? 's' : ''}`);
+      }
+      result.failures.forEach(failure => {
+        toast.error(`${failure.filePath.split(/[\\/]/).pop()}: ${failure.error}`);
+      });
+    } catch (error) {
+      toast.error('Failed to import audio files');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const togglePackSelection = (clipId: string) => {
+    setPackSelection(prev => {
+      if (!prev) return prev;
+      const next = new Set(prev);
+      if (next.has(clipId)) {
+        next.delete(clipId);
+      } else {
+        next.add(clipId);
+      }
+      return next;
+    });
+  };
+
+  const handleExportPack = async (clipIds?: string[]) => {
+    try {
+      const result = await exportSoundPack(clipIds);
+      if (!result) return;
+      setPackSelection(null);
+      toast.success(`Exported ${result.exportedClipIds.length} clip${result.exportedClipIds.length !== 1 ? 's' : ''}`);
+      if (result.skippedClipIds.length > 0) {
+        toast.error(`${result.skippedClipIds.length} clip${result.skippedClipIds.length !== 1 ? 's were' : ' was'} left out, the file is missing`);
+      }
+    } catch (error) {
+      toast.error('Failed to export the sound pack');
+    }
+  };
+
+  const handleImportPack = async (packPath?: string) => {
+    try {
+      const result = await importSoundPack(packPath);
+      if (!result) return;
+      toast.success(`Imported ${result.clips.length} clip${result.clips.length !== 1 ? 's' : ''} from the pack`);
+      if (result.hotkeyConflicts.length > 0) {
+        toast.error(`Hotkeys already in use were not assigned: ${result.hotkeyConflicts.map(conflict => `${conflict.hotkey} (${conflict.clipName})`).join(', ')}`);
+      }
+      if (result.failures.length > 0) {
+        toast.error(`${result.failures.length} clip${result.failures.length !== 1 ? 's' : ''} could not be imported`);
+      }
+    } catch (error) {
+      toast.error('That file is not a sound pack SoundBoard can read');
+    }
+  };
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepth.current += 1;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) {
+      setIsDraggingFiles(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDraggingFiles(false);
+
+    // Electron exposes the file's location on disk as File.path
+    const filePaths = Array.from(e.dataTransfer.files).map(file => (file as File & { path: string }).path).filter(Boolean);
+    const packPaths = filePaths.filter(filePath => filePath.toLowerCase().endsWith('.sbpack'));
+    const audioPaths = filePaths.filter(filePath => !packPaths.includes(filePath));
+    packPaths.forEach(packPath => handleImportPack(packPath));
+    if (audioPaths.length > 0) {
+      handleImport(audioPaths);
+    }
+  };
+
   const handleClipRename = async (clipId: string, newName: string) => {
     try {
       await renameClip(clipId, newName);
@@ -85,6 +354,9 @@ const SoundboardApp: React.FC = () => {
     }
   };
 
+  // Looked up on each render so a library update closes the editor for a deleted clip
+  const trimClip = trimClipId ? clips.find(c => c.id === trimClipId) : undefined;
+
   const getThemeIcon = () => {
     if (theme === 'system') return <Monitor className="w-5 h-5" />;
     if (theme === 'dark') return <Moon className="w-5 h-5" />;
@@ -132,6 +404,31 @@ const SoundboardApp: React.FC = () => {
               </motion.h1>
               
               <div className="flex items-center space-x-4">
+                {/* Instant replay: shown while the buffer is switched on */}
+                {settings.replayBufferEnabled && replayBufferStatus && (
+                  <div className="flex items-center space-x-2">
+                    <span
+                      className={`inline-flex items-center space-x-2 px-3 py-1 rounded-full text-xs font-medium ${
+                        replayBufferStatus.armed
+                          ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200'
+                          : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200'
+                      }`}
+                      title={replayBufferStatus.error || `Keeping the last ${replayBufferStatus.seconds}s of ${replayBufferStatus.source}`}
+                    >
+                      <span className={`w-2 h-2 rounded-full ${replayBufferStatus.armed ? 'bg-red-500 animate-pulse' : 'bg-yellow-500'}`} />
+                      <span>{replayBufferStatus.armed ? `Replay ${replayBufferStatus.seconds}s` : 'Replay stopped'}</span>
+                    </span>
+                    <button
+                      onClick={handleSaveReplay}
+                      className="btn-secondary text-xs px-3 py-1 flex items-center space-x-1"
+                      title={settings.replayBufferHotkey ? `Save the replay buffer (${settings.replayBufferHotkey})` : 'Save the replay buffer'}
+                    >
+                      <History className="w-4 h-4" />
+                      <span>Save Replay</span>
+                    </button>
+                  </div>
+                )}
+
                 <button
                   onClick={toggleTheme}
                   className="p-2 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200"
@@ -174,6 +471,7 @@ const SoundboardApp: React.FC = () => {
                 <RecorderButton
                   isRecording={recordingState.isRecording}
                   duration={recordingState.duration}
+                  levels={recordingLevels}
                   onStart={handleRecordingStart}
                   onStop={handleRecordingStop}
                 />
@@ -202,6 +500,55 @@ const SoundboardApp: React.FC = () => {
                     </p>
                   </div>
                 )}
+
+                {/* Silence Trimming */}
+                <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Trim Silence
+                    </label>
+                    <button
+                      onClick={() => updateSettings({ autoTrimSilence: !settings.autoTrimSilence })}
+                      className={`
+                        relative inline-flex h-6 w-11 items-center rounded-full transition-colors
+                        ${settings.autoTrimSilence
+                          ? 'bg-primary-600'
+                          : 'bg-gray-200 dark:bg-gray-700'
+                        }
+                      `}
+                    >
+                      <span
+                        className={`
+                          inline-block h-4 w-4 transform rounded-full bg-white transition-transform
+                          ${settings.autoTrimSilence ? 'translate-x-6' : 'translate-x-1'}
+                        `}
+                      />
+                    </button>
+                  </div>
+                  {settings.autoTrimSilence && (
+                    <div className="mt-3">
+                      <label className="block text-xs text-gray-600 dark:text-gray-400 mb-2">
+                        Silence Threshold: {settings.silenceThresholdDb} dB
+                      </label>
+                      <input
+                        type="range"
+                        min="-70"
+                        max="-20"
+                        step="1"
+                        value={settings.silenceThresholdDb}
+                        onChange={(e) => updateSettings({ silenceThresholdDb: parseInt(e.target.value) })}
+                        className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700"
+                      />
+                      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        <span>-70 dB</span>
+                        <span>-20 dB</span>
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Sets trim points past the quiet start and end of each new recording; the file itself is kept whole
+                  </p>
+                </div>
                 
                 {recordingState.isRecording && (
                   <motion.div
@@ -223,17 +570,146 @@ const SoundboardApp: React.FC = () => {
               <AudioTestPanel />
             </div>
 
-            {/* Main Content - Clips Grid */}
-            <div className="lg:col-span-3">
+            {/* Main Content - Clips Grid, audio files can be dropped anywhere on it */}
+            <div
+              className={`lg:col-span-3 rounded-lg transition-shadow ${isDraggingFiles ? 'ring-2 ring-primary-500 ring-offset-4 dark:ring-offset-gray-900' : ''}`}
+              onDragEnter={handleDragEnter}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+            >
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
                   Audio Clips
                 </h2>
-                <span className="text-sm text-gray-500 dark:text-gray-400">
-                  {clips.length} clip{clips.length !== 1 ? 's' : ''}
-                </span>
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {visibleClips.length !== clips.length && `${visibleClips.length} of `}
+                    {clips.length} clip{clips.length !== 1 ? 's' : ''}
+                  </span>
+                  <button
+                    onClick={() => handleImport()}
+                    disabled={isImporting}
+                    className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700 transition-colors"
+                    title="Import audio files"
+                  >
+                    <Upload className={`w-4 h-4 ${isImporting ? 'animate-pulse' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => handleImportPack()}
+                    className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700 transition-colors"
+                    title="Import a sound pack"
+                  >
+                    <PackageOpen className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setPackSelection(packSelection ? null : new Set())}
+                    disabled={clips.length === 0}
+                    className={`p-2 rounded-lg transition-colors ${
+                      packSelection
+                        ? 'bg-primary-100 dark:bg-primary-900 text-primary-600 dark:text-primary-400'
+                        : 'text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700'
+                    }`}
+                    title="Export clips as a sound pack"
+                  >
+                    <Package className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleLibraryScan}
+                    disabled={isScanning}
+                    className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700 transition-colors"
+                    title="Rescan the clips directory"
+                  >
+                    <RefreshCw className={`w-4 h-4 ${isScanning ? 'animate-spin' : ''}`} />
+                  </button>
+                </div>
               </div>
 
+              {/* Pack export selection */}
+              {packSelection && (
+                <div className="mb-4 p-3 flex flex-wrap items-center justify-between gap-2 bg-primary-50 dark:bg-primary-900/20 rounded-lg border border-primary-200 dark:border-primary-800">
+                  <span className="text-sm text-primary-800 dark:text-primary-200">
+                    {packSelection.size > 0
+                      ? `${packSelection.size} clip${packSelection.size !== 1 ? 's' : ''} selected for the pack`
+                      : 'Pick the clips to export, or export the whole library'}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => setPackSelection(new Set(visibleClips.map(clip => clip.id)))}
+                      className="btn-secondary text-xs px-3 py-1"
+                    >
+                      Select Shown
+                    </button>
+                    <button
+                      onClick={() => handleExportPack(clips.filter(clip => packSelection.has(clip.id)).map(clip => clip.id))}
+                      disabled={packSelection.size === 0}
+                      className="btn-primary text-xs px-3 py-1"
+                    >
+                      Export Selected
+                    </button>
+                    <button onClick={() => handleExportPack()} className="btn-secondary text-xs px-3 py-1">
+                      Export All
+                    </button>
+                    <button onClick={() => setPackSelection(null)} className="btn-secondary text-xs px-3 py-1">
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Clips whose files are gone */}
+              {missingClips.length > 0 && (
+                <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="flex items-center space-x-2 text-red-800 dark:text-red-200">
+                      <AlertTriangle className="w-4 h-4" />
+                      <span className="text-sm font-medium">
+                        {missingClips.length} clip{missingClips.length !== 1 ? 's' : ''} can't find {missingClips.length !== 1 ? 'their files' : 'its file'}
+                      </span>
+                    </div>
+                    <button onClick={handleRemoveMissing} className="btn-secondary text-xs px-3 py-1">
+                      Remove All
+                    </button>
+                  </div>
+                  <ul className="space-y-1">
+                    {missingClips.map(clip => (
+                      <li key={clip.id} className="flex items-center justify-between text-sm text-red-700 dark:text-red-300">
+                        <span className="truncate" title={clip.filePath}>{clip.name}</span>
+                        <div className="flex items-center space-x-2 ml-2">
+                          <button onClick={() => handleClipRelink(clip.id)} className="btn-secondary text-xs px-2 py-0.5">
+                            Relink
+                          </button>
+                          <button onClick={() => handleClipDelete(clip.id)} className="btn-secondary text-xs px-2 py-0.5">
+                            Remove
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Source filter */}
+              {clips.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  {[{ value: 'all' as const, label: 'All' }, ...clipSourceOptions].map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setSourceFilter(option.value)}
+                      className={`
+                        px-3 py-1 rounded-full text-xs font-medium transition-colors
+                        ${sourceFilter === option.value
+                          ? 'bg-primary-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                        }
+                      `}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {clips.length === 0 ? (
                 <motion.div
                   initial={{ opacity: 0, y: 20 }}
@@ -245,33 +721,58 @@ const SoundboardApp: React.FC = () => {
                     No clips yet
                   </h3>
                   <p className="text-gray-500 dark:text-gray-400">
-                    Record your first audio clip to get started
+                    Record your first audio clip or drop audio files here to get started
                   </p>
                 </motion.div>
+              ) : visibleClips.length === 0 ? (
+                <p className="text-center py-12 text-gray-500 dark:text-gray-400">
+                  No clips from this source
+                </p>
               ) : (
                 <motion.div
                   layout
                   className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4"
                 >
                   <AnimatePresence>
-                    {clips.map((clip) => (
-                      <motion.div
-                        key={clip.id}
-                        layout
-                        initial={{ opacity: 0, scale: 0.8 }}
-                        animate={{ opacity: 1, scale: 1 }}
-                        exit={{ opacity: 0, scale: 0.8 }}
-                        transition={{ duration: 0.2 }}
-                      >
-                        <ClipCard
-                          clip={clip}
-                          isPlaying={playbackState.isPlaying && playbackState.currentClipId === clip.id}
-                          onPlay={handleClipPlay}
-                          onDelete={handleClipDelete}
-                          onRename={handleClipRename}
-                        />
-                      </motion.div>
-                    ))}
+                    {visibleClips.map((clip) => {
+                      const clipVoices = playbackState.voices.filter(v => v.clipId === clip.id);
+                      return (
+                        <motion.div
+                          key={clip.id}
+                          layout
+                          initial={{ opacity: 0, scale: 0.8 }}
+                          animate={{ opacity: 1, scale: 1 }}
+                          exit={{ opacity: 0, scale: 0.8 }}
+                          transition={{ duration: 0.2 }}
+                          className="relative"
+                        >
+                          {packSelection && (
+                            <button
+                              onClick={() => togglePackSelection(clip.id)}
+                              className="absolute -top-2 -left-2 z-10 p-1 rounded-md bg-white dark:bg-gray-800 shadow text-primary-600 dark:text-primary-400"
+                              title={packSelection.has(clip.id) ? 'Leave out of the pack' : 'Add to the pack'}
+                            >
+                              {packSelection.has(clip.id) ? <CheckSquare className="w-5 h-5" /> : <Square className="w-5 h-5" />}
+                            </button>
+                          )}
+                          <ClipCard
+                            clip={clip}
+                            isPlaying={clipVoices.length > 0}
+                            voices={clipVoices}
+                            isMissing={!!libraryScan?.missingClipIds.includes(clip.id)}
+                            onPlay={handleClipPlay}
+                            onStop={handleClipStop}
+                            onPause={handleClipPause}
+                            onResume={handleClipResume}
+                            onSeek={handleClipSeek}
+                            onDelete={handleClipDelete}
+                            onRename={handleClipRename}
+                            onUpdate={handleClipUpdate}
+                            onEditTrim={setTrimClipId}
+                          />
+                        </motion.div>
+                      );
+                    })}
                   </AnimatePresence>
                 </motion.div>
               )}
@@ -286,10 +787,26 @@ const SoundboardApp: React.FC = () => {
               settings={settings}
               audioDevices={audioDevices}
               onUpdateSettings={updateSettings}
+              libraryMoveProgress={libraryMoveProgress}
+              onMoveLibrary={moveLibrary}
+              onNormalizeLibrary={normalizeLibrary}
               onClose={() => setShowSettings(false)}
             />
           )}
         </AnimatePresence>
+
+        {/* Trim and Fade Editor */}
+        <AnimatePresence>
+          {trimClip && (
+            <ClipEditor
+              key={trimClip.id}
+              clip={trimClip}
+              onSave={edit => handleClipEditSave(trimClip, edit)}
+              onBake={() => handleTrimBake(trimClip.id)}
+              onClose={() => setTrimClipId(null)}
+            />
+          )}
+        </AnimatePresence>
       </div>
     </div>
   );
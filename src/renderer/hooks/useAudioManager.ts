@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { AudioClip, AppSettings, AudioDevice, RecordingState, PlaybackState } from '../../shared/types';
+import { AudioClip, AppSettings, AudioDevice, RecordingState, PlaybackState, LoopbackStatus, VirtualAudioStatus, MicPassthroughStatus, LibraryScanResult, ClipWaveform, LibraryChange, ClipImportResult, SoundPackExportResult, SoundPackImportResult, LibraryNormalizeResult, LibraryMoveMode, LibraryMoveProgress, LibraryMoveResult, RecordingAutoTrim, RecordingLevels, ReplayBufferStatus } from '../../shared/types';
 
 declare global {
   interface Window {
@@ -7,11 +7,26 @@ declare global {
       startRecording: () => Promise<void>;
       stopRecording: () => Promise<any>;
       playClip: (clipId: string) => Promise<void>;
-      stopPlayback: () => Promise<void>;
+      stopPlayback: (clipId?: string) => Promise<void>;
+      pausePlayback: (clipId?: string) => Promise<void>;
+      resumePlayback: (clipId?: string) => Promise<void>;
+      seekPlayback: (clipId: string, position: number) => Promise<void>;
       getClips: () => Promise<AudioClip[]>;
       saveClip: (clip: any) => Promise<AudioClip>;
       deleteClip: (clipId: string) => Promise<boolean>;
       renameClip: (id: string, name: string) => Promise<AudioClip>;
+      scanLibrary: () => Promise<LibraryScanResult>;
+      getLibraryScan: () => Promise<LibraryScanResult | null>;
+      relinkClip: (clipId: string) => Promise<AudioClip | null>;
+      getClipWaveform: (clipId: string, bucketCount: number) => Promise<ClipWaveform | null>;
+      bakeClipTrim: (clipId: string) => Promise<AudioClip | null>;
+      undoAutoTrim: (clipId: string) => Promise<AudioClip | null>;
+      importClips: (filePaths?: string[]) => Promise<ClipImportResult>;
+      exportSoundPack: (clipIds?: string[]) => Promise<SoundPackExportResult | null>;
+      importSoundPack: (packPath?: string) => Promise<SoundPackImportResult | null>;
+      normalizeLibrary: (targetLufs: number) => Promise<LibraryNormalizeResult>;
+      chooseClipsDirectory: () => Promise<string | null>;
+      moveLibrary: (directory: string, mode: LibraryMoveMode) => Promise<LibraryMoveResult>;
       getSettings: () => Promise<AppSettings>;
       updateSettings: (settings: any) => Promise<AppSettings>;
       getAudioDevices: () => Promise<AudioDevice[]>;
@@ -26,9 +41,22 @@ declare global {
       disableSpeakerLoopback: () => Promise<boolean>;
       enableHeadphoneLoopback: () => Promise<boolean>;
       disableHeadphoneLoopback: () => Promise<boolean>;
+      getLoopbackStatus: () => Promise<LoopbackStatus>;
+      getVirtualAudioStatus: () => Promise<VirtualAudioStatus>;
+      ensureVirtualAudio: () => Promise<VirtualAudioStatus>;
+      repairVirtualAudio: () => Promise<VirtualAudioStatus>;
+      removeVirtualAudio: () => Promise<VirtualAudioStatus>;
+      getMicPassthroughStatus: () => Promise<MicPassthroughStatus>;
+      getReplayBufferStatus: () => Promise<ReplayBufferStatus>;
+      saveReplayBuffer: () => Promise<AudioClip>;
       onRecordingStateChanged: (callback: (state: any) => void) => void;
       onPlaybackStateChanged: (callback: (state: any) => void) => void;
       onClipSaved: (callback: (clip: any) => void) => void;
+      onLibraryChanged: (callback: (change: LibraryChange) => void) => void;
+      onLibraryMoveProgress: (callback: (progress: LibraryMoveProgress) => void) => void;
+      onRecordingAutoTrimmed: (callback: (autoTrim: RecordingAutoTrim) => void) => void;
+      onRecordingLevels: (callback: (levels: RecordingLevels) => void) => void;
+      onReplayBufferStatusChanged: (callback: (status: ReplayBufferStatus) => void) => void;
       onHotkeyPressed: (callback: (clipId: string) => void) => void;
       onPlaybackError: (callback: (errorData: any) => void) => void;
       removeAllListeners: (channel: string) => void;
@@ -36,6 +64,11 @@ declare global {
   }
 }
 
+// The message a main process handler threw, without the prefix Electron adds to rejected invokes
+export const getIpcErrorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : String(error);
+};
+
 export const useAudioManager = () => {
   const [clips, setClips] = useState<AudioClip[]>([]);
   const [recordingState, setRecordingState] = useState<RecordingState>({
@@ -45,8 +78,7 @@ export const useAudioManager = () => {
   });
   const [playbackState, setPlaybackState] = useState<PlaybackState>({
     isPlaying: false,
-    currentClipId: undefined,
-    progress: 0
+    voices: []
   });
   const [settings, setSettings] = useState<AppSettings>({
     theme: 'system',
@@ -61,25 +93,60 @@ export const useAudioManager = () => {
     enableAutoStart: false,
     enableSpeakerLoopback: true,
     enableHeadphoneLoopback: true,
-    systemAudioBufferDelay: 300 // Default 300ms buffer delay for system audio recording
+    speakerDeviceId: '',
+    headphoneDeviceId: '',
+    virtualOutputVolume: 1.0,
+    speakerMonitorVolume: 1.0,
+    headphoneMonitorVolume: 1.0,
+    loopbackMethod: 'app',
+    manageVirtualAudioDevices: true,
+    virtualMicName: 'SoundBoard Virtual Microphone',
+    mixMicrophoneIntoVirtualMic: false,
+    micPassthroughGainDb: 0,
+    micPassthroughMuted: false,
+    micPushToTalkHotkey: '',
+    micDuckingEnabled: true,
+    micDuckingDb: -12,
+    systemAudioBufferDelay: 300, // Default 300ms buffer delay for system audio recording
+    autoTrimSilence: false,
+    silenceThresholdDb: -50,
+    loudnessTargetLufs: -16,
+    autoNormalizeRecordings: false,
+    crossfadeMs: 0,
+    recordingSampleRate: 44100,
+    recordingBitDepth: 16,
+    micRecordingChannels: 1,
+    systemAudioChannels: 2,
+    replayBufferEnabled: false,
+    replayBufferSeconds: 30,
+    replayBufferHotkey: ''
   });
   const [audioDevices, setAudioDevices] = useState<AudioDevice[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const [libraryScan, setLibraryScan] = useState<LibraryScanResult | null>(null);
+  const [libraryMoveProgress, setLibraryMoveProgress] = useState<LibraryMoveProgress | null>(null);
+  const [lastAutoTrim, setLastAutoTrim] = useState<RecordingAutoTrim | null>(null);
+  const [recordingLevels, setRecordingLevels] = useState<RecordingLevels | null>(null);
+  const [replayBufferStatus, setReplayBufferStatus] = useState<ReplayBufferStatus | null>(null);
 
   // Load initial data
   useEffect(() => {
     const loadInitialData = async () => {
       try {
-        const [clipsData, settingsData, devicesData] = await Promise.all([
+        const [clipsData, settingsData, devicesData, scanData, replayData] = await Promise.all([
           window.electronAPI.getClips(),
           window.electronAPI.getSettings(),
-          window.electronAPI.getAudioDevices()
+          window.electronAPI.getAudioDevices(),
+          window.electronAPI.getLibraryScan(),
+          window.electronAPI.getReplayBufferStatus()
         ]);
 
         setClips(clipsData);
         setSettings(settingsData);
         setAudioDevices(devicesData);
+        setLibraryScan(scanData);
+        setReplayBufferStatus(replayData);
       } catch (error) {
         console.error('Failed to load initial data:', error);
       } finally {
@@ -98,6 +165,9 @@ export const useAudioManager = () => {
     
     const handleRecordingStateChanged = (state: RecordingState) => {
       setRecordingState(state);
+      if (!state.isRecording) {
+        setRecordingLevels(null);
+      }
     };
 
     const handlePlaybackStateChanged = (state: PlaybackState) => {
@@ -120,6 +190,12 @@ export const useAudioManager = () => {
       });
     };
 
+    // Files were added, removed or renamed in the clips directory outside the app
+    const handleLibraryChanged = (change: LibraryChange) => {
+      setClips(change.clips);
+      setLibraryScan(change.scan);
+    };
+
     const handleHotkeyPressed = (clipId: string) => {
       // Handle hotkey press - could show a visual indicator
       console.log('=== HOTKEY PRESSED ===');
@@ -148,6 +224,11 @@ export const useAudioManager = () => {
     window.electronAPI.onRecordingStateChanged(handleRecordingStateChanged);
     window.electronAPI.onPlaybackStateChanged(handlePlaybackStateChanged);
     window.electronAPI.onClipSaved(handleClipSaved);
+    window.electronAPI.onLibraryChanged(handleLibraryChanged);
+    window.electronAPI.onLibraryMoveProgress(setLibraryMoveProgress);
+    window.electronAPI.onRecordingAutoTrimmed(setLastAutoTrim);
+    window.electronAPI.onRecordingLevels(setRecordingLevels);
+    window.electronAPI.onReplayBufferStatusChanged(setReplayBufferStatus);
     window.electronAPI.onHotkeyPressed(handleHotkeyPressed);
     
     // Listen for playback errors
@@ -159,6 +240,11 @@ export const useAudioManager = () => {
       window.electronAPI.removeAllListeners('recording-state-changed');
       window.electronAPI.removeAllListeners('playback-state-changed');
       window.electronAPI.removeAllListeners('clip-saved');
+      window.electronAPI.removeAllListeners('library-changed');
+      window.electronAPI.removeAllListeners('library-move-progress');
+      window.electronAPI.removeAllListeners('recording-auto-trimmed');
+      window.electronAPI.removeAllListeners('recording-levels');
+      window.electronAPI.removeAllListeners('replay-buffer-status-changed');
       window.electronAPI.removeAllListeners('hotkey-pressed');
       window.electronAPI.removeAllListeners('playback-error');
     };
@@ -167,8 +253,8 @@ export const useAudioManager = () => {
   // Audio recording functions
   const startRecording = useCallback(async () => {
     try {
-      // Check if system audio capture is enabled
-      if (settings.enableSystemAudioCapture && settings.inputDeviceId) {
+      // System audio capture records monitors; any other input is a microphone
+      if (settings.enableSystemAudioCapture && settings.inputDeviceId.startsWith('monitor-')) {
         // Use system audio capture
         await window.electronAPI.startSystemAudioCapture();
       } else {
@@ -183,8 +269,8 @@ export const useAudioManager = () => {
 
   const stopRecording = useCallback(async () => {
     try {
-      // Check if system audio capture is enabled
-      if (settings.enableSystemAudioCapture && settings.inputDeviceId) {
+      // System audio capture records monitors; any other input is a microphone
+      if (settings.enableSystemAudioCapture && settings.inputDeviceId.startsWith('monitor-')) {
         // Use system audio capture stop
         await window.electronAPI.stopSystemAudioCapture();
       } else {
@@ -212,15 +298,42 @@ export const useAudioManager = () => {
     }
   }, [clips.length]);
 
-  const stopPlayback = useCallback(async () => {
+  const stopPlayback = useCallback(async (clipId?: string) => {
     try {
-      await window.electronAPI.stopPlayback();
+      await window.electronAPI.stopPlayback(clipId);
     } catch (error) {
       console.error('Failed to stop playback:', error);
       throw error;
     }
   }, []);
 
+  const pausePlayback = useCallback(async (clipId?: string) => {
+    try {
+      await window.electronAPI.pausePlayback(clipId);
+    } catch (error) {
+      console.error('Failed to pause playback:', error);
+      throw error;
+    }
+  }, []);
+
+  const resumePlayback = useCallback(async (clipId?: string) => {
+    try {
+      await window.electronAPI.resumePlayback(clipId);
+    } catch (error) {
+      console.error('Failed to resume playback:', error);
+      throw error;
+    }
+  }, []);
+
+  const seekPlayback = useCallback(async (clipId: string, position: number) => {
+    try {
+      await window.electronAPI.seekPlayback(clipId, position);
+    } catch (error) {
+      console.error('Failed to seek playback:', error);
+      throw error;
+    }
+  }, []);
+
   // Clip management functions
   const saveClip = useCallback(async (clip: AudioClip) => {
     try {
@@ -247,6 +360,7 @@ export const useAudioManager = () => {
       const success = await window.electronAPI.deleteClip(clipId);
       if (success) {
         setClips(prev => prev.filter(c => c.id !== clipId));
+        setLibraryScan(prev => prev && { ...prev, missingClipIds: prev.missingClipIds.filter(id => id !== clipId) });
       }
       return success;
     } catch (error) {
@@ -266,6 +380,130 @@ export const useAudioManager = () => {
     }
   }, []);
 
+  // Library functions
+  const scanLibrary = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.scanLibrary();
+      setLibraryScan(result);
+      setClips(await window.electronAPI.getClips());
+      return result;
+    } catch (error) {
+      console.error('Failed to scan library:', error);
+      throw error;
+    }
+  }, []);
+
+  const relinkClip = useCallback(async (clipId: string) => {
+    try {
+      const updatedClip = await window.electronAPI.relinkClip(clipId);
+      if (updatedClip) {
+        setClips(prev => prev.map(c => c.id === clipId ? updatedClip : c));
+        setLibraryScan(prev => prev && { ...prev, missingClipIds: prev.missingClipIds.filter(id => id !== clipId) });
+      }
+      return updatedClip;
+    } catch (error) {
+      console.error('Failed to relink clip:', error);
+      throw error;
+    }
+  }, []);
+
+  const bakeClipTrim = useCallback(async (clipId: string) => {
+    try {
+      const updatedClip = await window.electronAPI.bakeClipTrim(clipId);
+      if (updatedClip) {
+        setClips(prev => prev.map(c => c.id === clipId ? updatedClip : c));
+      }
+      return updatedClip;
+    } catch (error) {
+      console.error('Failed to bake clip trim:', error);
+      throw error;
+    }
+  }, []);
+
+  const saveReplayBuffer = useCallback(async () => {
+    try {
+      // The new clip arrives through the clip-saved event like any recording
+      return await window.electronAPI.saveReplayBuffer();
+    } catch (error) {
+      console.error('Failed to save replay buffer:', error);
+      throw error;
+    }
+  }, []);
+
+  const undoAutoTrim = useCallback(async (clipId: string) => {
+    try {
+      const updatedClip = await window.electronAPI.undoAutoTrim(clipId);
+      if (updatedClip) {
+        setClips(prev => prev.map(c => c.id === clipId ? updatedClip : c));
+      }
+      return updatedClip;
+    } catch (error) {
+      console.error('Failed to undo auto trim:', error);
+      throw error;
+    }
+  }, []);
+
+  // Without paths main asks the user to pick files
+  const importClips = useCallback(async (filePaths?: string[]) => {
+    try {
+      const result = await window.electronAPI.importClips(filePaths);
+      setClips(prev => [...prev.filter(c => !result.clips.some(clip => clip.id === c.id)), ...result.clips]);
+      return result;
+    } catch (error) {
+      console.error('Failed to import clips:', error);
+      throw error;
+    }
+  }, []);
+
+  // Without clip ids the whole library is exported
+  const exportSoundPack = useCallback(async (clipIds?: string[]) => {
+    try {
+      return await window.electronAPI.exportSoundPack(clipIds);
+    } catch (error) {
+      console.error('Failed to export sound pack:', error);
+      throw error;
+    }
+  }, []);
+
+  const importSoundPack = useCallback(async (packPath?: string) => {
+    try {
+      const result = await window.electronAPI.importSoundPack(packPath);
+      if (result) {
+        setClips(prev => [...prev, ...result.clips]);
+      }
+      return result;
+    } catch (error) {
+      console.error('Failed to import sound pack:', error);
+      throw error;
+    }
+  }, []);
+
+  const normalizeLibrary = useCallback(async (targetLufs: number) => {
+    try {
+      const result = await window.electronAPI.normalizeLibrary(targetLufs);
+      setClips(prev => prev.map(c => result.clips.find(clip => clip.id === c.id) || c));
+      return result;
+    } catch (error) {
+      console.error('Failed to normalize library:', error);
+      throw error;
+    }
+  }, []);
+
+  const moveLibrary = useCallback(async (directory: string, mode: LibraryMoveMode) => {
+    try {
+      const result = await window.electronAPI.moveLibrary(directory, mode);
+      setClips(await window.electronAPI.getClips());
+      setLibraryScan(await window.electronAPI.getLibraryScan());
+      setSettings(await window.electronAPI.getSettings());
+      return result;
+    } catch (error) {
+      console.error('Failed to move library:', error);
+      throw error;
+    } finally {
+      setLibraryMoveProgress(null);
+    }
+  }, []);
+
   // Settings functions
   const updateSettings = useCallback(async (newSettings: Partial<AppSettings>) => {
     try {
@@ -378,9 +616,27 @@ export const useAudioManager = () => {
     stopRecording,
     playClip,
     stopPlayback,
+    pausePlayback,
+    resumePlayback,
+    seekPlayback,
     saveClip,
     deleteClip,
     renameClip,
+    libraryScan,
+    scanLibrary,
+    relinkClip,
+    bakeClipTrim,
+    lastAutoTrim,
+    undoAutoTrim,
+    recordingLevels,
+    replayBufferStatus,
+    saveReplayBuffer,
+    importClips,
+    exportSoundPack,
+    importSoundPack,
+    normalizeLibrary,
+    libraryMoveProgress,
+    moveLibrary,
     updateSettings,
     registerHotkey,
     unregisterHotkey,
@@ -4,9 +4,37 @@ export interface AudioClip {
   filePath: string;
   duration: number;
   createdAt: Date;
+  source: ClipSource; // Where the audio came from, set when the clip is created
   hotkey?: string;
+  playMode?: ClipPlayMode; // What happens to other voices when this clip is triggered
+  gainDb?: number; // Per-clip gain applied on top of the master volume
+  trimStart?: number; // Seconds into the file where playback starts
+  trimEnd?: number; // Seconds into the file where playback stops, end of file if unset
+  loudness?: ClipLoudness; // Last measurement of the file, cleared when the file changes
+  normalizationGainDb?: number; // Set by loudness normalization, applied on top of gainDb
+  fadeIn?: number; // Seconds, from the start of the trimmed range
+  fadeOut?: number; // Seconds, ending at the end of the trimmed range
+  recordedFormat?: RecordingFormat; // What a recording was captured as
 }
 
+// Integer PCM layout of a recording
+export interface RecordingFormat {
+  sampleRate: number; // Hz
+  channels: number; // 1 = mono, 2 = stereo
+  bitDepth: number; // 16, 24 or 32
+}
+
+// Level of a clip's whole file as measured by the loudness analysis
+export interface ClipLoudness {
+  peakDb: number; // Loudest sample, dBFS
+  integratedLufs: number; // BS.1770 integrated loudness estimate
+}
+
+export type ClipSource = 'microphone' | 'system' | 'import' | 'generated';
+
+// cut: stop everything else, overlap: layer on top, restart: retrigger only this clip
+export type ClipPlayMode = 'cut' | 'overlap' | 'restart';
+
 export interface PlaybackError {
   message: string;
   details?: string;
@@ -35,7 +63,160 @@ export interface AppSettings {
   enableAutoStart: boolean; // New field for auto-start service
   enableSpeakerLoopback: boolean; // New field for speaker audio loopback
   enableHeadphoneLoopback: boolean; // New field for headphone audio loopback
+  speakerDeviceId: string; // Speakers that monitor clips sent to the virtual device ('' = output device)
+  headphoneDeviceId: string; // Headphones that monitor clips sent to the virtual device
+  virtualOutputVolume: number; // Level sent to the virtual device, 0..1
+  speakerMonitorVolume: number; // 0..1
+  headphoneMonitorVolume: number; // 0..1
+  loopbackMethod: LoopbackMethod;
+  manageVirtualAudioDevices: boolean; // Create the virtual devices on startup and remove them on exit
+  virtualMicName: string; // Name the virtual microphone shows up under in Discord
+  mixMicrophoneIntoVirtualMic: boolean; // Carry the input device (or default mic) on the virtual mic too
+  micPassthroughGainDb: number; // Gain on the passed-through microphone
+  micPassthroughMuted: boolean;
+  micPushToTalkHotkey: string; // Global accelerator held to open the mic, '' = always open
+  micDuckingEnabled: boolean; // Lower the mic while clips play
+  micDuckingDb: number; // Gain applied on top while ducked, e.g. -12
   systemAudioBufferDelay: number; // Buffer delay for system audio recording (ms)
+  autoTrimSilence: boolean; // Set trim points past leading and trailing silence on new recordings
+  silenceThresholdDb: number; // Level below which a recording counts as silent, e.g. -50
+  loudnessTargetLufs: number; // Loudness every clip is brought to by normalization
+  autoNormalizeRecordings: boolean; // Normalize new recordings as they are saved
+  crossfadeMs: number; // Overlap when a clip cuts off the ones playing, 0 = just a short fade
+  recordingSampleRate: number; // Hz, for both microphone and system audio recordings
+  recordingBitDepth: number; // 16, 24 or 32
+  micRecordingChannels: number; // 1 = mono, 2 = stereo
+  systemAudioChannels: number; // Desktop audio is usually stereo
+  replayBufferEnabled: boolean; // Keep the last few seconds of system audio in memory
+  replayBufferSeconds: number; // 10..120
+  replayBufferHotkey: string; // Global accelerator that saves the replay buffer, '' = none
+}
+
+// app: the audio engine plays each clip to the monitor devices itself
+// pulseaudio: a module-loopback copies the virtual device's monitor to them
+export type LoopbackMethod = 'app' | 'pulseaudio';
+
+export type LoopbackTarget = 'speaker' | 'headphone';
+
+export interface LoopbackTargetStatus {
+  active: boolean;
+  method: LoopbackMethod;
+  device?: string; // Sink name for the pulseaudio method, device id for the app method
+  moduleId?: string; // Only for the pulseaudio method
+  error?: string;
+}
+
+export type LoopbackStatus = Record<LoopbackTarget, LoopbackTargetStatus>;
+
+export type VirtualAudioComponentId = 'output-sink' | 'mic-sink' | 'mic-loopback' | 'mic-input-loopback' | 'mic-source';
+
+export interface VirtualAudioComponent {
+  id: VirtualAudioComponentId;
+  label: string;
+  required: boolean; // Optional links must be absent when switched off
+  present: boolean;
+  stale: boolean; // Loaded with arguments that no longer match the settings
+  moduleIds: string[]; // Empty when provided outside the app, more than one means duplicates
+}
+
+export interface VirtualAudioStatus {
+  available: boolean; // Whether pactl could reach PulseAudio/PipeWire
+  healthy: boolean;
+  components: VirtualAudioComponent[];
+  legacyModuleIds: string[]; // Left behind by the old setup scripts
+  error?: string;
+}
+
+// Outcome of comparing the clip library with the clips directory
+export interface LibraryScanResult {
+  missingClipIds: string[]; // Clips whose file is gone; relink or remove them
+  importedClipIds: string[]; // Unknown files added to the library
+  relinkedClipIds: string[]; // Missing clips found again elsewhere in the directory
+  removedClipIds: string[]; // Clips dropped because their file was deleted while the app watched
+  unsupportedFiles: string[]; // Audio files that can't be imported yet
+  scannedAt: number;
+}
+
+// Pushed by main when the watched clips directory changed on disk
+export interface LibraryChange {
+  clips: AudioClip[];
+  scan: LibraryScanResult;
+}
+
+// Peak levels of a clip's whole file for the trim editor
+export interface ClipWaveform {
+  duration: number; // Seconds, of the file rather than the trimmed range
+  peaks: number[]; // 0..1, evenly spread over the file
+}
+
+// Pushed by main when silence was trimmed off a new recording, so it can be undone
+export interface RecordingAutoTrim {
+  clipId: string;
+  clipName: string;
+  removedSeconds: number;
+}
+
+// Input level of the recording in progress, pushed by main several times a second
+export interface RecordingLevels {
+  rmsDb: number; // dBFS over the last interval, -90 for silence
+  peakDb: number; // dBFS, loudest sample of the last interval
+  clipped: boolean; // A sample reached full scale
+}
+
+export interface ClipImportResult {
+  clips: AudioClip[];
+  failures: { filePath: string; error: string }[];
+}
+
+export interface SoundPackExportResult {
+  filePath: string;
+  exportedClipIds: string[];
+  skippedClipIds: string[]; // Clips whose file is missing
+}
+
+export interface SoundPackImportResult {
+  clips: AudioClip[];
+  hotkeyConflicts: { clipName: string; hotkey: string }[]; // Imported without their hotkey
+  failures: { clipName: string; error: string }[];
+}
+
+export interface LibraryNormalizeResult {
+  clips: AudioClip[];
+  failures: { clipName: string; error: string }[]; // Clips whose file could not be measured
+}
+
+// Move deletes the originals once every copy is verified, copy leaves them in place
+export type LibraryMoveMode = 'move' | 'copy';
+
+export interface LibraryMoveProgress {
+  phase: 'copying' | 'removing-originals' | 'rolling-back';
+  filesDone: number;
+  filesTotal: number;
+  bytesDone: number;
+  bytesTotal: number;
+  currentFile?: string;
+}
+
+export interface LibraryMoveResult {
+  directory: string;
+  movedClipIds: string[];
+  skippedClipIds: string[]; // Clips whose file was already missing, left untouched
+  leftoverFiles: string[]; // Originals a move could not delete
+}
+
+export interface MicPassthroughStatus {
+  active: boolean; // The microphone loopback exists and is being controlled
+  open: boolean; // Not muted and, with push-to-talk, the key is held
+  ducked: boolean;
+  gainDb: number; // Effective gain including ducking
+  error?: string;
+}
+
+export interface ReplayBufferStatus {
+  armed: boolean; // Capturing into the buffer right now
+  seconds: number; // Length the buffer holds once full
+  source?: string; // PulseAudio monitor source being captured
+  error?: string;
 }
 
 export interface RecordingState {
@@ -44,11 +225,19 @@ export interface RecordingState {
   startTime?: number;
 }
 
+export interface PlaybackVoice {
+  voiceId: string;
+  clipId: string;
+  progress: number; // 0..1
+  position: number; // Seconds played
+  duration: number; // Seconds, as decoded from the file
+  paused: boolean;
+  startTime: number;
+}
+
 export interface PlaybackState {
   isPlaying: boolean;
-  currentClipId?: string;
-  progress: number;
-  startTime?: number;
+  voices: PlaybackVoice[]; // One entry per clip instance currently playing
 }
 
 export interface HotkeyAssignment {
@@ -67,6 +256,9 @@ export const IPC_CHANNELS = {
   // Audio playback
   PLAY_CLIP: 'play-clip',
   STOP_PLAYBACK: 'stop-playback',
+  PAUSE_PLAYBACK: 'pause-playback',
+  RESUME_PLAYBACK: 'resume-playback',
+  SEEK_PLAYBACK: 'seek-playback',
   PLAYBACK_STATE_CHANGED: 'playback-state-changed',
   PLAYBACK_ERROR: 'playback-error',
   
@@ -75,6 +267,22 @@ export const IPC_CHANNELS = {
   SAVE_CLIP: 'save-clip',
   DELETE_CLIP: 'delete-clip',
   RENAME_CLIP: 'rename-clip',
+  SCAN_LIBRARY: 'scan-library',
+  GET_LIBRARY_SCAN: 'get-library-scan',
+  RELINK_CLIP: 'relink-clip',
+  GET_CLIP_WAVEFORM: 'get-clip-waveform',
+  BAKE_CLIP_TRIM: 'bake-clip-trim',
+  RECORDING_AUTO_TRIMMED: 'recording-auto-trimmed',
+  RECORDING_LEVELS: 'recording-levels',
+  UNDO_AUTO_TRIM: 'undo-auto-trim',
+  LIBRARY_CHANGED: 'library-changed',
+  IMPORT_CLIPS: 'import-clips',
+  EXPORT_SOUND_PACK: 'export-sound-pack',
+  IMPORT_SOUND_PACK: 'import-sound-pack',
+  NORMALIZE_LIBRARY: 'normalize-library',
+  CHOOSE_CLIPS_DIRECTORY: 'choose-clips-directory',
+  MOVE_LIBRARY: 'move-library',
+  LIBRARY_MOVE_PROGRESS: 'library-move-progress',
   
   // Settings
   GET_SETTINGS: 'get-settings',
@@ -99,7 +307,22 @@ export const IPC_CHANNELS = {
   ENABLE_SPEAKER_LOOPBACK: 'enable-speaker-loopback',
   DISABLE_SPEAKER_LOOPBACK: 'disable-speaker-loopback',
   ENABLE_HEADPHONE_LOOPBACK: 'enable-headphone-loopback',
-  DISABLE_HEADPHONE_LOOPBACK: 'disable-headphone-loopback'
+  DISABLE_HEADPHONE_LOOPBACK: 'disable-headphone-loopback',
+  GET_LOOPBACK_STATUS: 'get-loopback-status',
+  
+  // Virtual audio device management
+  GET_VIRTUAL_AUDIO_STATUS: 'get-virtual-audio-status',
+  ENSURE_VIRTUAL_AUDIO: 'ensure-virtual-audio',
+  REPAIR_VIRTUAL_AUDIO: 'repair-virtual-audio',
+  REMOVE_VIRTUAL_AUDIO: 'remove-virtual-audio',
+  
+  // Microphone passthrough
+  GET_MIC_PASSTHROUGH_STATUS: 'get-mic-passthrough-status',
+  
+  // Instant replay buffer
+  GET_REPLAY_BUFFER_STATUS: 'get-replay-buffer-status',
+  REPLAY_BUFFER_STATUS_CHANGED: 'replay-buffer-status-changed',
+  SAVE_REPLAY_BUFFER: 'save-replay-buffer'
 } as const;
 
 // Event types for IPC
@@ -108,13 +331,32 @@ export type IpcEventMap = {
   [IPC_CHANNELS.STOP_RECORDING]: void;
   [IPC_CHANNELS.RECORDING_STATE_CHANGED]: RecordingState;
   [IPC_CHANNELS.PLAY_CLIP]: string;
-  [IPC_CHANNELS.STOP_PLAYBACK]: void;
+  [IPC_CHANNELS.STOP_PLAYBACK]: string | undefined;
+  [IPC_CHANNELS.PAUSE_PLAYBACK]: string | undefined;
+  [IPC_CHANNELS.RESUME_PLAYBACK]: string | undefined;
+  [IPC_CHANNELS.SEEK_PLAYBACK]: { clipId: string; position: number };
   [IPC_CHANNELS.PLAYBACK_STATE_CHANGED]: PlaybackState;
   [IPC_CHANNELS.PLAYBACK_ERROR]: PlaybackError;
   [IPC_CHANNELS.GET_CLIPS]: AudioClip[];
   [IPC_CHANNELS.SAVE_CLIP]: AudioClip;
   [IPC_CHANNELS.DELETE_CLIP]: string;
   [IPC_CHANNELS.RENAME_CLIP]: { id: string; name: string };
+  [IPC_CHANNELS.SCAN_LIBRARY]: LibraryScanResult;
+  [IPC_CHANNELS.GET_LIBRARY_SCAN]: LibraryScanResult | null;
+  [IPC_CHANNELS.RELINK_CLIP]: string;
+  [IPC_CHANNELS.GET_CLIP_WAVEFORM]: { clipId: string; bucketCount: number };
+  [IPC_CHANNELS.BAKE_CLIP_TRIM]: string;
+  [IPC_CHANNELS.RECORDING_AUTO_TRIMMED]: RecordingAutoTrim;
+  [IPC_CHANNELS.RECORDING_LEVELS]: RecordingLevels;
+  [IPC_CHANNELS.UNDO_AUTO_TRIM]: string;
+  [IPC_CHANNELS.LIBRARY_CHANGED]: LibraryChange;
+  [IPC_CHANNELS.IMPORT_CLIPS]: string[] | undefined;
+  [IPC_CHANNELS.EXPORT_SOUND_PACK]: string[] | undefined;
+  [IPC_CHANNELS.IMPORT_SOUND_PACK]: string | undefined;
+  [IPC_CHANNELS.NORMALIZE_LIBRARY]: number; // Target loudness, LUFS
+  [IPC_CHANNELS.CHOOSE_CLIPS_DIRECTORY]: string | null;
+  [IPC_CHANNELS.MOVE_LIBRARY]: { directory: string; mode: LibraryMoveMode };
+  [IPC_CHANNELS.LIBRARY_MOVE_PROGRESS]: LibraryMoveProgress;
   [IPC_CHANNELS.GET_SETTINGS]: AppSettings;
   [IPC_CHANNELS.UPDATE_SETTINGS]: Partial<AppSettings>;
   [IPC_CHANNELS.GET_AUDIO_DEVICES]: AudioDevice[];
@@ -126,4 +368,17 @@ export type IpcEventMap = {
   [IPC_CHANNELS.GET_AUTOSTART_STATUS]: { isInstalled: boolean; isEnabled: boolean; isActive: boolean };
   [IPC_CHANNELS.START_SYSTEM_AUDIO_CAPTURE]: void;
   [IPC_CHANNELS.STOP_SYSTEM_AUDIO_CAPTURE]: void;
+  [IPC_CHANNELS.ENABLE_SPEAKER_LOOPBACK]: boolean;
+  [IPC_CHANNELS.DISABLE_SPEAKER_LOOPBACK]: boolean;
+  [IPC_CHANNELS.ENABLE_HEADPHONE_LOOPBACK]: boolean;
+  [IPC_CHANNELS.DISABLE_HEADPHONE_LOOPBACK]: boolean;
+  [IPC_CHANNELS.GET_LOOPBACK_STATUS]: LoopbackStatus;
+  [IPC_CHANNELS.GET_VIRTUAL_AUDIO_STATUS]: VirtualAudioStatus;
+  [IPC_CHANNELS.ENSURE_VIRTUAL_AUDIO]: VirtualAudioStatus;
+  [IPC_CHANNELS.REPAIR_VIRTUAL_AUDIO]: VirtualAudioStatus;
+  [IPC_CHANNELS.REMOVE_VIRTUAL_AUDIO]: VirtualAudioStatus;
+  [IPC_CHANNELS.GET_MIC_PASSTHROUGH_STATUS]: MicPassthroughStatus;
+  [IPC_CHANNELS.GET_REPLAY_BUFFER_STATUS]: ReplayBufferStatus;
+  [IPC_CHANNELS.REPLAY_BUFFER_STATUS_CHANGED]: ReplayBufferStatus;
+  [IPC_CHANNELS.SAVE_REPLAY_BUFFER]: void;
 };